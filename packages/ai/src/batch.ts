@@ -0,0 +1,61 @@
+import type {
+  ToolCallResult,
+  BatchToolCallResult,
+  FeedbackAndInstructions,
+  NonEmptyArray,
+} from '@tool2agent/types';
+import { errorToToolCallFailure } from './tool2agent.js';
+
+/**
+ * Assembles the outcome of a batch tool call from per-item results.
+ * Returns `ok: true` if every item was accepted, and `ok: 'partial'` with per-item results otherwise.
+ * @param items - per-item results, in the same order as the items of the input
+ * @param extra - optional feedback and instructions for the batch as a whole
+ * @returns the outcome of the batch tool call
+ * @example
+ * const results = await Promise.all(input.seats.map(bookSeat));
+ * return batchToolCallResult(results, { feedback: [`${results.length} seats processed`] });
+ */
+export function batchToolCallResult<InputType, ItemInputType, ItemOutputType>(
+  items: ToolCallResult<ItemInputType, ItemOutputType>[],
+  extra: FeedbackAndInstructions = {},
+): BatchToolCallResult<InputType, ItemInputType, ItemOutputType> {
+  if (items.every(item => item.ok)) {
+    return {
+      ok: true,
+      ...extra,
+      items,
+    };
+  }
+  return {
+    ok: 'partial',
+    ...extra,
+    items: items as NonEmptyArray<ToolCallResult<ItemInputType, ItemOutputType>>,
+  };
+}
+
+/**
+ * Runs an item-level execute function over every item of a batch and assembles the outcome.
+ * Items are processed sequentially. Exceptions thrown for an item are formatted into that item's
+ * `problems` and do not affect the other items.
+ * @param items - the items of the batch
+ * @param executeItem - function that processes a single item
+ * @returns the outcome of the batch tool call, see {@link batchToolCallResult}
+ */
+export async function executeBatch<InputType, ItemInputType, ItemOutputType>(
+  items: readonly ItemInputType[],
+  executeItem: (
+    item: ItemInputType,
+    index: number,
+  ) => Promise<ToolCallResult<ItemInputType, ItemOutputType>>,
+): Promise<BatchToolCallResult<InputType, ItemInputType, ItemOutputType>> {
+  const results: ToolCallResult<ItemInputType, ItemOutputType>[] = [];
+  for (const [index, item] of items.entries()) {
+    try {
+      results.push(await executeItem(item, index));
+    } catch (error: unknown) {
+      results.push(errorToToolCallFailure<ItemInputType>(error));
+    }
+  }
+  return batchToolCallResult<InputType, ItemInputType, ItemOutputType>(results);
+}
@@ -2,6 +2,7 @@ import z from 'zod';
 import { tool, ToolCallOptions } from 'ai';
 import { type ToolCallResult } from '@tool2agent/types';
 import { Tool2Agent } from '../tool2agent.js';
+import { serializeDynamicSchemas } from '../dynamic-schemas.js';
 import {
   type ToolBuilderParams,
   type DynamicInputType,
@@ -60,14 +61,21 @@ function buildToolLoose<
     execute: async (input: DynamicInputType, _options: ToolCallOptions) => {
       const result = await validateToolInput<InputType, DynamicUnion>(fullSpec, input);
       if (result.status === 'rejected') {
-        return {
+        // TypeScript can't relate the generic validation results to the FailureFeedback conditional type,
+        // so the cast goes through unknown
+        return serializeDynamicSchemas({
           ok: false,
           validationResults: result.validationResults,
-        } as ToolCallResult<InputType, OutputType>;
+        } as unknown as ToolCallResult<InputType, OutputType>);
       }
       // After status check, result is narrowed to ToolCallAccepted<InputType>, so result.value is InputType
-      // params.execute now returns ToolCallResult directly, so we can return it as-is
-      return await params.execute(result.value);
+      const output = await params.execute(result.value);
+      // Tell the agent how its input was normalized, unless execute reports it itself
+      return serializeDynamicSchemas(
+        output.ok === true && result.normalization
+          ? { ...result.normalization, ...output }
+          : output,
+      );
     },
   };
   // NOTE: Avoids pathological generic instantiation inside ai.Tool by erasing input at the call site
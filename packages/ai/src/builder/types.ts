@@ -3,6 +3,7 @@ import {
   type ParameterValidationResult,
   type ToolCallResult,
   type NonEmptyArray,
+  type InputNormalization,
 } from '@tool2agent/types';
 import { type Tool2Agent } from '../tool2agent.js';
 
@@ -146,6 +147,8 @@ export type BuilderState<
 export type ToolCallAccepted<InputType extends Record<string, unknown>> = {
   status: 'accepted';
   value: InputType;
+  /** Present only if some fields were normalized or have feedback from validation. */
+  normalization?: InputNormalization<InputType>;
 };
 
 export type ToolCallRejected<InputType extends Record<string, unknown>> = {
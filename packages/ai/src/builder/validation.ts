@@ -1,4 +1,9 @@
-import { type ParameterValidationResult, type NonEmptyArray } from '@tool2agent/types';
+import {
+  type ParameterValidationResult,
+  type NonEmptyArray,
+  type AnnotatedSuggestion,
+  type InputNormalization,
+} from '@tool2agent/types';
 import { detectRequiresCycles, toposortFields } from './graph.js';
 import { isDeepStrictEqual } from 'util';
 import { delayedLog } from '../internal/logger.js';
@@ -128,6 +133,18 @@ function sortFields<
   return topoKeys as DynamicFields[];
 }
 
+/**
+ * Orders annotated suggestions by score, highest first, so that the agent sees the best options first.
+ * Suggestions without a score keep their relative order after the scored ones.
+ */
+function rankSuggestions<T>(
+  suggestions: NonEmptyArray<AnnotatedSuggestion<T>>,
+): NonEmptyArray<AnnotatedSuggestion<T>> {
+  return [...suggestions].sort(
+    (a, b) => (b.score ?? -Infinity) - (a.score ?? -Infinity) || 0,
+  ) as NonEmptyArray<AnnotatedSuggestion<T>>;
+}
+
 function processValidationResult<
   InputType extends Record<string, unknown>,
   K extends keyof InputType,
@@ -140,7 +157,7 @@ function processValidationResult<
   validFields: Partial<InputType>;
 } {
   // Create a copy of validationResult, removing normalizedValue if it's equal to the original value (no-op normalization)
-  const processedResult: ParameterValidationResult<InputType, K> = isDeepStrictEqual(
+  const normalizedResult: ParameterValidationResult<InputType, K> = isDeepStrictEqual(
     value,
     validationResult.normalizedValue,
   )
@@ -149,6 +166,13 @@ function processValidationResult<
         return rest as ParameterValidationResult<InputType, K>;
       })()
     : { ...validationResult };
+  const processedResult: ParameterValidationResult<InputType, K> =
+    normalizedResult.annotatedSuggestions
+      ? {
+          ...normalizedResult,
+          annotatedSuggestions: rankSuggestions(normalizedResult.annotatedSuggestions),
+        }
+      : normalizedResult;
 
   // Build the validFields update based on validation result
   const validFields: Partial<InputType> = {};
@@ -166,6 +190,35 @@ function processValidationResult<
   };
 }
 
+/**
+ * Collects normalized values and feedback of accepted fields, so that the agent learns
+ * how its input was interpreted. Returns undefined if there is nothing to report.
+ */
+function collectNormalization<InputType extends Record<string, unknown>>(validationResults: {
+  [P in keyof InputType]?: ParameterValidationResult<InputType, P>;
+}): InputNormalization<InputType> | undefined {
+  const normalizedInput: Partial<InputType> = {};
+  const inputNotes: { [P in keyof InputType]?: NonEmptyArray<string> } = {};
+  for (const key of Object.keys(validationResults) as (keyof InputType)[]) {
+    const result = validationResults[key];
+    if (!result?.valid) continue;
+    // No-op normalizations have already been removed by processValidationResult
+    if (typeof result.normalizedValue !== 'undefined') {
+      normalizedInput[key] = result.normalizedValue;
+    }
+    if (result.feedback) {
+      inputNotes[key] = result.feedback;
+    }
+  }
+  if (Object.keys(normalizedInput).length === 0 && Object.keys(inputNotes).length === 0) {
+    return undefined;
+  }
+  return {
+    ...(Object.keys(normalizedInput).length > 0 ? { normalizedInput } : {}),
+    ...(Object.keys(inputNotes).length > 0 ? { inputNotes } : {}),
+  } as InputNormalization<InputType>;
+}
+
 export async function validateToolInput<
   InputType extends Record<string, unknown>,
   DynamicFields extends keyof InputType,
@@ -238,9 +291,11 @@ export async function validateToolInput<
     return res;
   }
 
+  const normalization = collectNormalization(validationResults);
   const res = {
     status: 'accepted',
     value: validFields as InputType,
+    ...(normalization ? { normalization } : {}),
   } as ToolCallAccepted<InputType>;
   delayedLog(() => ['validate:accepted', JSON.stringify(res, null, 2)]);
   return res;
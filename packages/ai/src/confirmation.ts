@@ -0,0 +1,184 @@
+import { randomUUID } from 'node:crypto';
+import { type ToolCallOptions } from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+import type { NonEmptyArray, ToolCallFailure, ToolCallResult } from '@tool2agent/types';
+
+/** Name of the input field that carries the confirmation token back to the tool. */
+export const confirmationTokenField = 'confirmationToken';
+
+/**
+ * Storage for issued confirmation tokens.
+ * Tokens are single-use: a token is forgotten as soon as it is used for the call it was issued for.
+ */
+export interface ConfirmationStore {
+  /**
+   * Remembers a token issued for a tool call.
+   * @param token - the issued token
+   * @param callKey - a stable serialization of the tool call input
+   */
+  set(token: string, callKey: string): void | Promise<void>;
+  /**
+   * Forgets the token if it was issued for the given tool call.
+   * Tokens presented with a different call stay valid for the call they were issued for.
+   * @param token - the token received from the agent
+   * @param callKey - a stable serialization of the tool call input
+   * @returns true if the token was issued for the call, false if it is unknown or was issued for another call
+   */
+  take(token: string, callKey: string): boolean | Promise<boolean>;
+}
+
+/** How many tokens the in-memory store keeps at most. The oldest tokens are forgotten first. */
+const maxInMemoryTokens = 1000;
+
+/**
+ * Default implementation of ConfirmationStore that keeps tokens in memory until they expire.
+ */
+class InMemoryConfirmationStore implements ConfirmationStore {
+  // Insertion order is expiration order, because all tokens live for the same time
+  private readonly tokens = new Map<string, { callKey: string; expiresAt: number }>();
+  private readonly ttlMs: number;
+
+  constructor(ttlMs: number) {
+    this.ttlMs = ttlMs;
+  }
+
+  set(token: string, callKey: string): void {
+    this.forgetExpired();
+    this.tokens.set(token, { callKey, expiresAt: Date.now() + this.ttlMs });
+    if (this.tokens.size > maxInMemoryTokens) {
+      this.tokens.delete(this.tokens.keys().next().value as string);
+    }
+  }
+
+  take(token: string, callKey: string): boolean {
+    this.forgetExpired();
+    if (this.tokens.get(token)?.callKey !== callKey) return false;
+    this.tokens.delete(token);
+    return true;
+  }
+
+  private forgetExpired(): void {
+    const now = Date.now();
+    for (const [token, { expiresAt }] of this.tokens) {
+      if (expiresAt > now) break;
+      this.tokens.delete(token);
+    }
+  }
+}
+
+/**
+ * Parameters that make a tool ask for a human confirmation before executing.
+ * @template InputType - The input type of the tool
+ */
+export type ConfirmationParams<InputType> = {
+  /**
+   * Decides whether a tool call needs a confirmation.
+   * Returns a human-readable summary of what the call is going to do,
+   * or undefined if the call can be executed right away.
+   */
+  summarize: (
+    input: InputType,
+    options: ToolCallOptions,
+  ) => Promise<string | undefined> | string | undefined;
+  /**
+   * Where issued tokens are kept until they are used.
+   * Defaults to an in-memory store that keeps up to 1000 tokens for `tokenTtlMs`.
+   */
+  store?: ConfirmationStore;
+  /** How long tokens of the default store stay valid, in milliseconds. Defaults to 15 minutes. */
+  tokenTtlMs?: number;
+  /** Custom instructions for the agent that come with a confirmation request. */
+  formatInstructions?: (summary: string) => NonEmptyArray<string>;
+};
+
+/** Serializes a value with sorted object keys, so that equal inputs produce equal keys. */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return '[' + value.map(stableStringify).join(',') + ']';
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entryValue]) => entryValue !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, entryValue]) => JSON.stringify(key) + ':' + stableStringify(entryValue));
+    return '{' + entries.join(',') + '}';
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+/**
+ * Adds the optional confirmation token field to an object input schema.
+ * Confirmation is only supported for object inputs, because the token travels as an input field.
+ */
+export function withConfirmationTokenField<InputType>(
+  inputSchema: z.ZodType<InputType>,
+): z.ZodType<InputType> {
+  if (!(inputSchema instanceof z.ZodObject)) {
+    throw new Error('tool2agent: confirmation requires an object input schema');
+  }
+  return inputSchema.extend({
+    [confirmationTokenField]: z
+      .string()
+      .optional()
+      .describe(
+        'Token from a requiresConfirmation outcome. Only pass it after the user has explicitly confirmed the action.',
+      ),
+  }) as unknown as z.ZodType<InputType>;
+}
+
+/**
+ * Wraps an execute function so that it only runs after a human confirmation.
+ * The first call returns a confirmation request with a single-use token.
+ * Repeating the same call with the token executes it.
+ */
+export function withConfirmation<InputType, OutputType>(
+  execute: (
+    input: InputType,
+    options: ToolCallOptions,
+  ) => Promise<ToolCallResult<InputType, OutputType>>,
+  confirmation: ConfirmationParams<InputType>,
+): (input: InputType, options: ToolCallOptions) => Promise<ToolCallResult<InputType, OutputType>> {
+  const {
+    summarize,
+    tokenTtlMs = 15 * 60 * 1000,
+    store = new InMemoryConfirmationStore(tokenTtlMs),
+    formatInstructions = (): NonEmptyArray<string> => [
+      'Show the summary to the user and ask them to confirm the action.',
+      `If the user agrees, repeat the same tool call with ${confirmationTokenField} set to the token. Do not change any other parameters.`,
+    ],
+  } = confirmation;
+
+  return async (input: InputType, options: ToolCallOptions) => {
+    const { [confirmationTokenField]: token, ...callInput } = input as Record<string, unknown>;
+    const callKey = stableStringify(callInput);
+
+    if (token !== undefined) {
+      const confirmed = typeof token === 'string' && (await store.take(token, callKey));
+      if (!confirmed) {
+        const failure: ToolCallFailure<InputType> = {
+          ok: false,
+          problems: [
+            'The confirmation token is unknown, has expired, has already been used, or was issued for a different tool call.',
+          ],
+          instructions: [
+            `Repeat the tool call without ${confirmationTokenField} to request a new confirmation.`,
+          ],
+        };
+        return failure;
+      }
+      return await execute(callInput as InputType, options);
+    }
+
+    const summary = await summarize(callInput as InputType, options);
+    if (summary === undefined) {
+      return await execute(callInput as InputType, options);
+    }
+    const newToken = randomUUID();
+    await store.set(newToken, callKey);
+    return {
+      ok: false,
+      requiresConfirmation: { summary, token: newToken },
+      instructions: formatInstructions(summary),
+    };
+  };
+}
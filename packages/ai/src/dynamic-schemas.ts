@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { mapFailureFeedback } from './internal/feedback.js';
+
+/**
+ * Converts Zod schemas returned as `dynamicParameterSchema` to JSON Schema,
+ * since Zod schemas turn into empty objects when the result is JSON-encoded.
+ * Covers top-level feedback, (nested) validation results, and per-item results of partial outcomes.
+ * Successful results are returned unchanged.
+ * @param result - the tool call result to serialize
+ * @returns a copy of the result where every dynamic parameter schema is a JSON Schema
+ * @example
+ * serializeDynamicSchemas({ ok: false, problems: ['Unknown seat'], dynamicParameterSchema: z.enum(['1A']) });
+ * // => { ok: false, problems: ['Unknown seat'], dynamicParameterSchema: { $schema: '...', type: 'string', enum: ['1A'] } }
+ */
+export function serializeDynamicSchemas<T>(result: T): T {
+  return mapFailureFeedback(result, feedback =>
+    feedback.dynamicParameterSchema instanceof z.ZodType
+      ? {
+          ...feedback,
+          // The model fills the input, so the input side of transforms and pipes is what it needs to see.
+          // Unrepresentable types (dates, transforms) become `{}` instead of throwing.
+          dynamicParameterSchema: z.toJSONSchema(feedback.dynamicParameterSchema, {
+            io: 'input',
+            unrepresentable: 'any',
+          }),
+        }
+      : feedback,
+  );
+}
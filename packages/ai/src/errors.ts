@@ -0,0 +1,36 @@
+import type { ToolCallFailure } from '@tool2agent/types';
+
+/**
+ * Fields of the failure that a {@link Tool2AgentError} turns into, all of them optional.
+ * `problems` default to the error message.
+ */
+export type Tool2AgentErrorFeedback<InputType> =
+  ToolCallFailure<InputType> extends infer Failure
+    ? Failure extends unknown
+      ? Partial<Omit<Failure, 'ok' | 'requiresConfirmation'>>
+      : never
+    : never;
+
+/**
+ * Error that tool code can throw from anywhere inside `execute()` to refuse the call with structured feedback.
+ * `tool2agent()` returns it as a {@link ToolCallFailure} instead of a generic exception failure.
+ * @template InputType - The input type of the tool, which the feedback refers to
+ * @example
+ * throw new Tool2AgentError('Seat 12A is taken', {
+ *   validationResults: { seat: { valid: false, problems: ['Taken'], suggestedValues: ['12B'] } },
+ * });
+ */
+export class Tool2AgentError<InputType = Record<string, unknown>> extends Error {
+  readonly feedback: Tool2AgentErrorFeedback<InputType>;
+
+  constructor(message: string, feedback?: Tool2AgentErrorFeedback<InputType>) {
+    super(message);
+    this.name = 'Tool2AgentError';
+    this.feedback = feedback ?? ({} as Tool2AgentErrorFeedback<InputType>);
+  }
+
+  /** Builds the failure that is returned to the LLM. */
+  toToolCallFailure(): ToolCallFailure<InputType> {
+    return { ok: false, problems: [this.message], ...this.feedback } as ToolCallFailure<InputType>;
+  }
+}
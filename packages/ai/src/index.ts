@@ -1,7 +1,38 @@
 // Re-export all tool2agent types
 export type * from '@tool2agent/types';
 
-export { tool2agent, type Tool2Agent, type Tool2AgentParams } from './tool2agent.js';
+export {
+  tool2agent,
+  type Tool2Agent,
+  type Tool2AgentParams,
+  asyncTool2agent,
+  type AsyncTool2Agent,
+  type AsyncTool2AgentParams,
+  batchTool2agent,
+  type BatchTool2Agent,
+  type BatchTool2AgentParams,
+  streamingTool2agent,
+  type StreamingTool2Agent,
+  type StreamingTool2AgentParams,
+  type Tool2AgentWithResult,
+  errorToToolCallFailure,
+} from './tool2agent.js';
+export { Tool2AgentError, type Tool2AgentErrorFeedback } from './errors.js';
+export { batchToolCallResult, executeBatch } from './batch.js';
+export {
+  confirmationTokenField,
+  type ConfirmationParams,
+  type ConfirmationStore,
+} from './confirmation.js';
+export { renderProblem, flattenProblems } from './problems.js';
+export { renderToolCallResult, resultRenderer, type ResultFormat } from './render.js';
+export { serializeDynamicSchemas } from './dynamic-schemas.js';
+export {
+  jobStatusTool,
+  jobStatusInputSchema,
+  type JobStatusInput,
+  type JobStatusToolParams,
+} from './job-status.js';
 export { toolBuilder } from './builder/builder.js';
 export {
   type ToolBuilderParams,
@@ -16,4 +47,9 @@ export {
   type ContextFor,
   type BuilderState,
 } from './builder/types.js';
-export { createMiddleware, type Middleware, type MiddlewareOptions } from './middleware.js';
+export {
+  createMiddleware,
+  applyMiddlewareToStreaming,
+  type Middleware,
+  type MiddlewareOptions,
+} from './middleware.js';
@@ -0,0 +1,47 @@
+export type UnknownRecord = Record<string, unknown>;
+
+export function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function mapFeedback(
+  feedback: UnknownRecord,
+  transform: (feedback: UnknownRecord) => UnknownRecord,
+): UnknownRecord {
+  const mapped = transform(feedback);
+  if (!isRecord(feedback.validationResults)) return mapped;
+  return {
+    ...mapped,
+    validationResults: Object.fromEntries(
+      Object.entries(feedback.validationResults).map(([key, value]) => [
+        key,
+        isRecord(value) ? mapFeedback(value, transform) : value,
+      ]),
+    ),
+  };
+}
+
+/**
+ * Applies a transformation to every piece of failure feedback in a tool call result:
+ * the failure itself, its (nested) validation results, and the per-item results of partial outcomes.
+ * Successful results are returned unchanged.
+ * @param result - the tool call result to transform
+ * @param transform - returns a transformed copy of a single piece of feedback, without recursing into it
+ * @returns a transformed copy of the result
+ */
+export function mapFailureFeedback<T>(
+  result: T,
+  transform: (feedback: UnknownRecord) => UnknownRecord,
+): T {
+  if (!isRecord(result)) return result;
+  if (result.ok === false) {
+    return mapFeedback(result, transform) as T;
+  }
+  if (result.ok === 'partial' && Array.isArray(result.items)) {
+    return {
+      ...result,
+      items: (result.items as unknown[]).map(item => mapFailureFeedback(item, transform)),
+    } as T;
+  }
+  return result;
+}
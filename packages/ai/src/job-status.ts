@@ -0,0 +1,70 @@
+import { type ToolCallOptions } from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+import type { AsyncToolCallResult, JsonSchema } from '@tool2agent/types';
+import type { AnySchema, InferSchemaOutput } from '@tool2agent/schemas';
+import { asyncTool2agent, type AsyncTool2Agent } from './tool2agent.js';
+
+/** Input schema of the tools created by {@link jobStatusTool}. */
+export const jobStatusInputSchema = z.object({
+  jobId: z
+    .string()
+    .describe('Identifier of the job to check on, as returned by the tool that started it.'),
+});
+
+export type JobStatusInput = z.infer<typeof jobStatusInputSchema>;
+
+/**
+ * Parameters for creating a job status tool.
+ * @template OutputSchema - The Zod (or other Standard Schema) schema for the output of the finished job.
+ */
+export type JobStatusToolParams<OutputSchema extends AnySchema> = {
+  /** The Zod (or other Standard Schema) schema for the output of the finished job. */
+  outputSchema: OutputSchema;
+  /** JSON Schema of `outputSchema`, for libraries that can not produce it, see {@link asyncTool2agent}. */
+  jsonSchema?: { outputSchema?: JsonSchema };
+  /** Optional description of the tool for the LLM. */
+  description?: string;
+  /**
+   * Looks up the job by its id.
+   * Returns a pending outcome while the job is still running, and the job result once it is done.
+   */
+  getStatus: (
+    jobId: string,
+    options: ToolCallOptions,
+  ) => Promise<AsyncToolCallResult<JobStatusInput, InferSchemaOutput<OutputSchema>>>;
+  /** Whether to catch exceptions and return them to the LLM as tool2agent `problems`. Defaults to true. */
+  catchExceptions?: boolean;
+};
+
+/**
+ * Creates a companion tool that lets the agent check back on jobs started by an {@link asyncTool2agent} tool.
+ * The tool accepts `{ jobId }` and returns the job result, a failure, or another pending outcome.
+ * @param params - parameters for the job status tool
+ * @returns an AsyncTool2Agent type that can be used by AI SDK tools.
+ * @example
+ * const checkReport = jobStatusTool({
+ *   outputSchema: z.object({ reportUrl: z.string() }),
+ *   getStatus: async (jobId) => {
+ *     const job = await reports.get(jobId);
+ *     if (!job) return { ok: false, problems: [`Unknown job: ${jobId}`] };
+ *     if (!job.done) return { ok: 'pending', jobId, progress: job.progress, pollAfterMs: 5000 };
+ *     return { ok: true, reportUrl: job.url };
+ *   },
+ * });
+ */
+export function jobStatusTool<OutputSchema extends AnySchema>(
+  params: JobStatusToolParams<OutputSchema>,
+): AsyncTool2Agent<JobStatusInput, InferSchemaOutput<OutputSchema>> {
+  const { getStatus, outputSchema, jsonSchema, description, catchExceptions } = params;
+  return asyncTool2agent({
+    description:
+      description ??
+      'Checks on the status of a long-running job and returns its result once it is done.',
+    inputSchema: jobStatusInputSchema,
+    outputSchema,
+    jsonSchema,
+    catchExceptions,
+    execute: async (input: JobStatusInput, options: ToolCallOptions) =>
+      await getStatus(input.jobId, options),
+  });
+}
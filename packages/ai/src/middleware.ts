@@ -1,4 +1,8 @@
-import type { Tool2Agent } from './tool2agent.js';
+import type { ToolCallOptions } from '@ai-sdk/provider-utils';
+import type { z } from 'zod';
+import type { ToolCallProgress, ToolCallResult } from '@tool2agent/types';
+import type { StreamingTool2Agent, Tool2Agent } from './tool2agent.js';
+import { createStreamingToolCallResultSchema } from './tool-call-result-schema.js';
 
 /**
  * Middleware that transforms a Tool2Agent into another Tool2Agent.
@@ -19,6 +23,13 @@ export type Middleware<
    * The middleware function that transforms a Tool2Agent.
    */
   applyTo: (tool: Tool2Agent<InputType, OutputType>) => Tool2Agent<NewInputType, NewOutputType>;
+  /**
+   * Applies the middleware to a streaming tool (see {@link streamingTool2agent}).
+   * If omitted, {@link applyMiddlewareToStreaming} applies `applyTo` to the final result of the stream.
+   */
+  applyToStreaming?: <ProgressType>(
+    tool: StreamingTool2Agent<InputType, OutputType, ProgressType>,
+  ) => StreamingTool2Agent<NewInputType, NewOutputType, ProgressType>;
   /**
    * Pipe this middleware with another middleware, creating a new middleware that applies both in sequence.
    * The current middleware is applied first, then the next middleware.
@@ -85,16 +96,20 @@ function createPipe<
   FinalInputType,
   FinalOutputType,
 >(
-  currentApplyTo: (
-    tool: Tool2Agent<InputType, OutputType>,
-  ) => Tool2Agent<CurrentInputType, CurrentOutputType>,
+  current: Pick<
+    Middleware<InputType, OutputType, CurrentInputType, CurrentOutputType>,
+    'applyTo' | 'applyToStreaming'
+  >,
   next: Middleware<CurrentInputType, CurrentOutputType, FinalInputType, FinalOutputType>,
 ): Middleware<InputType, OutputType, FinalInputType, FinalOutputType> {
-  const composedApplyTo = (tool: Tool2Agent<InputType, OutputType>) => {
-    return next.applyTo(currentApplyTo(tool));
+  const composed = {
+    applyTo: (tool: Tool2Agent<InputType, OutputType>) => next.applyTo(current.applyTo(tool)),
+    applyToStreaming: <ProgressType>(
+      tool: StreamingTool2Agent<InputType, OutputType, ProgressType>,
+    ) => applyMiddlewareToStreaming(next, applyMiddlewareToStreaming(current, tool)),
   };
   return {
-    applyTo: composedApplyTo,
+    ...composed,
     pipe: <FinalFinalInputType, FinalFinalOutputType>(
       nextNext: Middleware<
         FinalInputType,
@@ -103,11 +118,140 @@ function createPipe<
         FinalFinalOutputType
       >,
     ): Middleware<InputType, OutputType, FinalFinalInputType, FinalFinalOutputType> => {
-      return createPipe(composedApplyTo, nextNext);
+      return createPipe(composed, nextNext);
     },
   };
 }
 
+// Carries progress updates of a streaming tool call from the original execute
+// to the stream of the transformed tool, through the options of the call
+const streamListener = Symbol('tool2agent.streamListener');
+
+type StreamListener<ProgressType> = {
+  onProgress: (progress: ToolCallProgress<ProgressType>) => void;
+  // Set when the consumer of the transformed stream stops reading it
+  closed: boolean;
+};
+
+type StreamListenerOptions<ProgressType> = ToolCallOptions & {
+  [streamListener]?: StreamListener<ProgressType>;
+};
+
+/**
+ * Applies a transformation of plain tools to a streaming tool.
+ * The transformation gets a view of the tool whose execute collects the stream,
+ * and the execute it returns is turned back into a stream.
+ */
+function applyToStreamingTool<InputType, OutputType, NewInputType, NewOutputType, ProgressType>(
+  transform: (tool: Tool2Agent<InputType, OutputType>) => Tool2Agent<NewInputType, NewOutputType>,
+  tool: StreamingTool2Agent<InputType, OutputType, ProgressType>,
+): StreamingTool2Agent<NewInputType, NewOutputType, ProgressType> {
+  const { execute, outputSchema, progressSchema, ...rest } = tool;
+  // The stream schema also accepts progress updates, which the view never returns
+  const resultSchema = outputSchema as unknown as z.ZodType<ToolCallResult<InputType, OutputType>>;
+  const transformed = transform({
+    ...rest,
+    outputSchema: resultSchema,
+    execute: async (input, options) => {
+      const listener = (options as StreamListenerOptions<ProgressType>)[streamListener];
+      let result: ToolCallResult<InputType, OutputType> | undefined;
+      // Breaking out of the loop stops the original stream as well
+      for await (const item of execute(input, options)) {
+        if (item.ok === 'progress') {
+          listener?.onProgress(item);
+        } else {
+          result = item;
+        }
+        if (listener?.closed) {
+          throw new Error('tool2agent: the stream of a streaming tool was closed early');
+        }
+      }
+      if (!result) {
+        throw new Error('tool2agent: the stream of a streaming tool ended without a final result');
+      }
+      return result;
+    },
+  });
+  const { execute: transformedExecute, outputSchema: transformedOutputSchema } = transformed;
+  return {
+    ...transformed,
+    outputSchema:
+      transformedOutputSchema === resultSchema
+        ? (outputSchema as unknown as StreamingTool2Agent<
+            NewInputType,
+            NewOutputType,
+            ProgressType
+          >['outputSchema'])
+        : createStreamingToolCallResultSchema(transformedOutputSchema, progressSchema),
+    progressSchema,
+    execute: async function* (input, options) {
+      const updates: ToolCallProgress<ProgressType>[] = [];
+      let wake: (() => void) | undefined;
+      let settled = false;
+      const listener: StreamListener<ProgressType> = {
+        onProgress: progress => {
+          updates.push(progress);
+          wake?.();
+        },
+        closed: false,
+      };
+      const listenerOptions: StreamListenerOptions<ProgressType> = {
+        ...options,
+        [streamListener]: listener,
+      };
+      const result = transformedExecute(input, listenerOptions);
+      const onSettled = () => {
+        settled = true;
+        wake?.();
+      };
+      result.then(onSettled, onSettled);
+      try {
+        while (true) {
+          let update = updates.shift();
+          while (update) {
+            yield update;
+            update = updates.shift();
+          }
+          if (settled) break;
+          await new Promise<void>(resolve => {
+            wake = resolve;
+          });
+        }
+        yield await result;
+      } finally {
+        listener.closed = true;
+      }
+    },
+  } as StreamingTool2Agent<NewInputType, NewOutputType, ProgressType>;
+}
+
+/**
+ * Applies a middleware to a streaming tool (see {@link streamingTool2agent}).
+ * Middlewares without `applyToStreaming` are applied to a plain Tool2Agent whose `execute` resolves
+ * with the final result of the stream.
+ * Progress updates are passed through, as long as the transformed `execute` calls the original one
+ * with the options it has received (spreading them into a new object is fine).
+ * @example
+ * const tool = applyMiddlewareToStreaming(logMiddleware, searchFlightsTool);
+ */
+export function applyMiddlewareToStreaming<
+  InputType,
+  OutputType,
+  NewInputType,
+  NewOutputType,
+  ProgressType,
+>(
+  middleware: Pick<
+    Middleware<InputType, OutputType, NewInputType, NewOutputType>,
+    'applyTo' | 'applyToStreaming'
+  >,
+  tool: StreamingTool2Agent<InputType, OutputType, ProgressType>,
+): StreamingTool2Agent<NewInputType, NewOutputType, ProgressType> {
+  return middleware.applyToStreaming
+    ? middleware.applyToStreaming(tool)
+    : applyToStreamingTool(middleware.applyTo, tool);
+}
+
 /**
  * Creates a middleware object from middleware options.
  *
@@ -142,14 +286,16 @@ export function createMiddleware<
 >(
   options: MiddlewareOptions<InputType, OutputType, NewInputType, NewOutputType>,
 ): Middleware<InputType, OutputType, NewInputType, NewOutputType> {
-  const applyTo = (tool: Tool2Agent<InputType, OutputType>) => options.transform(tool);
+  const middleware = {
+    applyTo: (tool: Tool2Agent<InputType, OutputType>) => options.transform(tool),
+  };
 
   return {
-    applyTo,
+    ...middleware,
     pipe<FinalInputType, FinalOutputType>(
       next: Middleware<NewInputType, NewOutputType, FinalInputType, FinalOutputType>,
     ): Middleware<InputType, OutputType, FinalInputType, FinalOutputType> {
-      return createPipe(applyTo, next);
+      return createPipe(middleware, next);
     },
   };
 }
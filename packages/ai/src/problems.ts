@@ -0,0 +1,28 @@
+import type { Problem } from '@tool2agent/types';
+import { mapFailureFeedback } from './internal/feedback.js';
+
+/**
+ * Renders a single problem as text.
+ * Freeform problems are returned as is, structured problems are rendered as their message.
+ */
+export function renderProblem(problem: Problem): string {
+  return typeof problem === 'string' ? problem : problem.message;
+}
+
+/**
+ * Replaces structured problems in a tool call result with their text, for models that only want text.
+ * Covers top-level problems, problems in (nested) validation results, and per-item results of partial outcomes.
+ * Successful results are returned unchanged.
+ * @param result - the tool call result to flatten
+ * @returns a copy of the result where every problem is a string
+ * @example
+ * flattenProblems({ ok: false, problems: [{ code: 'rate_limited', message: 'Slow down' }] });
+ * // => { ok: false, problems: ['Slow down'] }
+ */
+export function flattenProblems<T>(result: T): T {
+  return mapFailureFeedback(result, feedback =>
+    Array.isArray(feedback.problems)
+      ? { ...feedback, problems: (feedback.problems as Problem[]).map(renderProblem) }
+      : feedback,
+  );
+}
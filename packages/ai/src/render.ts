@@ -0,0 +1,134 @@
+import { isRecord, type UnknownRecord } from './internal/feedback.js';
+
+/**
+ * Text formats that tool call results can be rendered to for the LLM.
+ * - `markdown`: nested bullet lists
+ * - `xml`: XML-tagged text, with fields as attributes and nested structures as child elements
+ */
+export type ResultFormat = 'markdown' | 'xml';
+
+// The value as the LLM would see it in JSON: without undefined values, with dates as strings, etc.
+function jsonValue(value: unknown): unknown {
+  const json = JSON.stringify(value);
+  return json === undefined ? undefined : JSON.parse(json);
+}
+
+function isScalar(value: unknown): boolean {
+  return !Array.isArray(value) && !isRecord(value);
+}
+
+// Unquoted strings would be mistaken for other values or for lists
+function isAmbiguous(text: string): boolean {
+  if (text === '' || text !== text.trim() || /[\n,]/.test(text) || text.startsWith('[')) {
+    return true;
+  }
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Strings are written as is, unless they could be mistaken for something else
+function formatScalar(value: unknown): string {
+  if (typeof value !== 'string') return JSON.stringify(value) ?? String(value);
+  return isAmbiguous(value) ? JSON.stringify(value) : value;
+}
+
+// Scalars, empty objects, and arrays of scalars as bracketed comma-separated lists
+function formatInline(value: unknown): string | undefined {
+  if (isScalar(value)) return formatScalar(value);
+  if (Array.isArray(value) && value.every(isScalar)) {
+    return `[${value.map(item => formatScalar(item)).join(', ')}]`;
+  }
+  if (isRecord(value) && Object.keys(value).length === 0) return '{}';
+  return undefined;
+}
+
+function markdownLines(value: unknown, indent: string): string[] {
+  const entries: [string, unknown][] = Array.isArray(value)
+    ? value.map((item, index) => [`${index + 1}.`, item])
+    : Object.entries(value as UnknownRecord).map(([key, item]) => [`${key}:`, item]);
+  return entries.flatMap(([label, item]) => {
+    const inline = formatInline(item);
+    if (inline !== undefined) return [`${indent}- ${label} ${inline}`];
+    return [`${indent}- ${label}`, ...markdownLines(item, indent + '  ')];
+  });
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const xmlNamePattern = /^[A-Za-z_][\w.-]*$/;
+
+// Fields with inline values become attributes, nested structures become child elements.
+// Record keys that are not valid XML names go into a `key` attribute of an `entry` element instead.
+function xmlElement(name: string, value: unknown): string {
+  const [open, close] = xmlNamePattern.test(name)
+    ? [name, name]
+    : [`entry key="${escapeXml(name)}"`, 'entry'];
+  const inline = formatInline(value);
+  if (inline !== undefined) return `<${open}>${escapeXml(inline)}</${close}>`;
+  let attributes = '';
+  const children: string[] = [];
+  if (Array.isArray(value)) {
+    children.push(...value.map(item => xmlElement('item', item)));
+  } else {
+    for (const [key, item] of Object.entries(value as UnknownRecord)) {
+      const itemInline = formatInline(item);
+      if (itemInline !== undefined && xmlNamePattern.test(key)) {
+        attributes += ` ${key}="${escapeXml(itemInline)}"`;
+      } else {
+        children.push(xmlElement(key, item));
+      }
+    }
+  }
+  if (children.length === 0) return `<${open}${attributes}/>`;
+  return [`<${open}${attributes}>`, ...children, `</${close}>`].join('\n');
+}
+
+/**
+ * Renders a tool call result (or any other JSON value) as text for the LLM.
+ * Both formats drop most of the quotes and braces of JSON, so the text is usually shorter in tokens than the JSON that AI SDK sends by default.
+ * Strings are quoted where they could be mistaken for other values, so that no information is lost.
+ * @param result - the result to render
+ * @param format - the format to render the result to
+ * @returns the rendered text
+ * @example
+ * renderToolCallResult({ ok: false, problems: ['No seats left'], retryable: true }, 'markdown');
+ * // => '- ok: false\n- problems: [No seats left]\n- retryable: true'
+ */
+export function renderToolCallResult(result: unknown, format: ResultFormat): string {
+  const value = jsonValue(result);
+  switch (format) {
+    case 'markdown':
+      return formatInline(value) ?? markdownLines(value, '').join('\n');
+    case 'xml':
+      return xmlElement('tool_result', value ?? '');
+  }
+}
+
+/**
+ * Creates a `toModelOutput` function that sends tool call results to the LLM as text in the given format.
+ * @param format - the format to render results to, see {@link renderToolCallResult}
+ * @returns a function to pass as `toModelOutput` to tool2agent() and its variants
+ * @example
+ * const tool = tool2agent({
+ *   inputSchema,
+ *   outputSchema,
+ *   toModelOutput: resultRenderer('markdown'),
+ *   execute,
+ * });
+ */
+export function resultRenderer(format: ResultFormat): (result: unknown) => {
+  type: 'text';
+  value: string;
+} {
+  return result => ({ type: 'text', value: renderToolCallResult(result, format) });
+}
@@ -1,69 +1,155 @@
 import { z } from 'zod';
-import type { ToolCallResult } from '@tool2agent/types';
+import type {
+  ToolCallResult,
+  AsyncToolCallResult,
+  BatchToolCallResult,
+  StreamingToolCallResult,
+} from '@tool2agent/types';
+
+// Freeform or structured problem entries
+const problemSchema = z.union([
+  z.string(),
+  z.object({
+    code: z.string(),
+    message: z.string(),
+    params: z.record(z.string(), z.unknown()).optional(),
+  }),
+]);
+
+// Dynamic parameter schemas are converted to JSON Schema before results leave the tool
+const jsonSchemaSchema = z.record(z.string(), z.unknown());
+
+const annotatedSuggestionSchema = z.object({
+  value: z.unknown(),
+  label: z.string().optional(),
+  description: z.string().optional(),
+  score: z.number().optional(),
+});
+
+const toolReferenceSchema = z.object({
+  toolName: z.string(),
+  relation: z.enum(['prerequisite', 'followUp']),
+  suggestedInput: z.unknown().optional(),
+  reason: z.string().optional(),
+});
+
+// Freeform or typed instructions
+const instructionSchema = z.union([
+  z.string(),
+  z.discriminatedUnion('kind', [
+    z.object({
+      kind: z.literal('ask_user'),
+      question: z.string(),
+      options: z.array(z.string()).optional(),
+    }),
+    z.object({
+      kind: z.literal('call_tool'),
+      toolName: z.string(),
+      suggestedInput: z.unknown().optional(),
+      reason: z.string().optional(),
+    }),
+    z.object({ kind: z.literal('stop_and_report'), message: z.string() }),
+    z.object({ kind: z.literal('retry'), message: z.string().optional() }),
+  ]),
+]);
+
+// Common feedback fields
+const feedbackFields = {
+  feedback: z.array(z.string()).optional(),
+  instructions: z.array(instructionSchema).optional(),
+  relatedTools: z.array(toolReferenceSchema).optional(),
+};
 
 /**
- * Converts an output schema to a ToolCallResult schema.
- * Creates a simplified ToolCallResult schema without AtLeastOne/AtMostOne constraints.
+ * Success case: { ok: true, ...outputFields, feedback?, instructions? }
+ * If OutputType is a record, spread it directly; otherwise wrap in value
  */
-export function createToolCallResultSchema<InputType, OutputType>(
-  inputSchema: z.ZodType<InputType>,
-  outputSchema: z.ZodType<OutputType>,
-): z.ZodType<ToolCallResult<InputType, OutputType>> {
-  // Common feedback fields
-  const feedbackFields = {
-    feedback: z.array(z.string()).optional(),
-    instructions: z.array(z.string()).optional(),
-  };
-
-  // Success case: { ok: true, ...outputFields, feedback?, instructions? }
-  // If OutputType is a record, spread it directly; otherwise wrap in value
-  const successSchema = (() => {
-    const baseSuccess = z.object({
-      ok: z.literal(true),
-      ...feedbackFields,
+function createSuccessSchema<OutputType>(outputSchema: z.ZodType<OutputType>) {
+  const baseSuccess = z.object({
+    ok: z.literal(true),
+    // InputNormalization fields
+    normalizedInput: z.unknown().optional(),
+    inputNotes: z.record(z.string(), z.array(z.string())).optional(),
+    ...feedbackFields,
+  });
+
+  // Check if outputSchema is an object schema
+  if (outputSchema instanceof z.ZodObject) {
+    // For object schemas, merge the output fields directly
+    return baseSuccess.merge(outputSchema);
+  } else {
+    // For non-object schemas, wrap in value field
+    return baseSuccess.extend({
+      value: outputSchema,
     });
+  }
+}
 
-    // Check if outputSchema is an object schema
-    if (outputSchema instanceof z.ZodObject) {
-      // For object schemas, merge the output fields directly
-      return baseSuccess.merge(outputSchema);
-    } else {
-      // For non-object schemas, wrap in value field
-      return baseSuccess.extend({
-        value: outputSchema,
-      });
-    }
-  })();
-
-  // ParameterValidationResult schema (simplified, without AtLeastOne/AtMostOne)
-  // Matches: CommonFailureFeedback<T> & (valid: true | (valid: false & ParameterValidationFailureReasons))
-  const parameterValidationResultSchema = z.object({
-    valid: z.boolean(),
-    // CommonFailureFeedback fields
-    normalizedValue: z.unknown().optional(),
-    dynamicParameterSchema: z.unknown().optional(),
-    allowedValues: z.array(z.unknown()).optional(),
-    suggestedValues: z.array(z.unknown()).optional(),
-    feedback: z.array(z.string()).optional(),
-    instructions: z.array(z.string()).optional(),
-    // ParameterValidationFailureReasons fields (only present when valid: false)
-    problems: z.array(z.string()).optional(),
-    requiresValidParameters: z.array(z.string()).optional(),
-  });
+// ParameterValidationResult schema (simplified, without AtLeastOne/AtMostOne)
+// Matches: CommonFailureFeedback<T> & NestedValidationResults<T> & (valid: true | (valid: false & ParameterValidationFailureReasons))
+// Also accepts ItemValidationResult, which is the same minus requiresValidParameters
+const parameterValidationResultSchema = z.object({
+  valid: z.boolean(),
+  // CommonFailureFeedback fields
+  normalizedValue: z.unknown().optional(),
+  dynamicParameterSchema: jsonSchemaSchema.optional(),
+  allowedValues: z.array(z.unknown()).optional(),
+  suggestedValues: z.array(z.unknown()).optional(),
+  annotatedSuggestions: z.array(annotatedSuggestionSchema).optional(),
+  // FeedbackAndInstructions fields, listed explicitly to keep the recursive schema inferable
+  feedback: z.array(z.string()).optional(),
+  instructions: z.array(instructionSchema).optional(),
+  relatedTools: z.array(toolReferenceSchema).optional(),
+  // ParameterValidationFailureReasons fields (only present when valid: false)
+  problems: z.array(problemSchema).optional(),
+  requiresValidParameters: z.array(z.string()).optional(),
+  // NestedValidationResults: field names for object values, item indices for array values
+  get validationResults() {
+    return z.record(z.string(), parameterValidationResultSchema).optional();
+  },
+});
+
+// RetryClassification fields (simplified: retryAfterMs is not tied to retryable: true)
+const retryFields = {
+  retryable: z.boolean().optional(),
+  retryAfterMs: z.number().optional(),
+};
+
+// ToolCallConfirmationRequired shares the ok: false discriminator with failures,
+// so its payload is folded into the failure schemas
+const confirmationFields = {
+  requiresConfirmation: z
+    .object({
+      summary: z.string(),
+      token: z.string(),
+    })
+    .optional(),
+};
 
-  // Check if InputType is a record (object) by checking if inputSchema is a ZodObject
-  const isRecordInput = inputSchema instanceof z.ZodObject;
+/**
+ * Failure case structure depends on whether InputType is a record or an array
+ */
+function createFailureSchema<InputType>(inputSchema: z.ZodType<InputType>) {
+  // Check if InputType is a record (object) by checking if inputSchema is a ZodObject,
+  // or a union of them (e.g. a discriminated union)
+  const isRecordInput =
+    inputSchema instanceof z.ZodObject ||
+    (inputSchema instanceof z.ZodUnion &&
+      inputSchema.options.every(option => option instanceof z.ZodObject));
+  const isArrayInput = inputSchema instanceof z.ZodArray;
 
-  // Failure case structure depends on whether InputType is a record
   // For records: RecordFailureFeedback = AtLeastOne<{ problems, validationResults? }>
   //   - validationResults contains ParameterValidationResult which has CommonFailureFeedback
   //   - RecordFailureFeedback itself does NOT have CommonFailureFeedback at top level
   // For non-records: ValueFailureFeedback = { problems } & CommonFailureFeedback<InputType>
   //   - ValueFailureFeedback has CommonFailureFeedback fields directly
-  const failureSchema = isRecordInput
+  //   - ArrayFailureFeedback additionally allows validationResults keyed by item index
+  return isRecordInput
     ? z.object({
         ok: z.literal(false),
-        problems: z.array(z.string()).optional(),
+        ...retryFields,
+        ...confirmationFields,
+        problems: z.array(problemSchema).optional(),
         ...feedbackFields,
         // validationResults maps parameter names to ParameterValidationResult objects
         // Only present for record inputs (RecordFailureFeedback)
@@ -72,18 +158,114 @@ export function createToolCallResultSchema<InputType, OutputType>(
       })
     : z.object({
         ok: z.literal(false),
-        problems: z.array(z.string()),
+        ...retryFields,
+        ...confirmationFields,
+        // Required for failures, absent for confirmation requests
+        problems: z.array(problemSchema).optional(),
         ...feedbackFields,
         // For non-record inputs (ValueFailureFeedback), include CommonFailureFeedback fields directly
-        // No validationResults for non-record inputs
+        // Only array inputs get validationResults (ArrayFailureFeedback), keyed by item index
+        ...(isArrayInput
+          ? {
+              validationResults: z
+                .record(z.string().regex(/^\d+$/), parameterValidationResultSchema)
+                .optional(),
+            }
+          : {}),
         normalizedValue: z.unknown().optional(),
-        dynamicParameterSchema: z.unknown().optional(),
+        dynamicParameterSchema: jsonSchemaSchema.optional(),
         allowedValues: z.array(z.unknown()).optional(),
         suggestedValues: z.array(z.unknown()).optional(),
+        annotatedSuggestions: z.array(annotatedSuggestionSchema).optional(),
       });
+}
 
+/**
+ * Pending case: { ok: 'pending', jobId, pollAfterMs?, progress?, feedback?, instructions? }
+ */
+function createPendingSchema() {
+  return z.object({
+    ok: z.literal('pending'),
+    jobId: z.string(),
+    pollAfterMs: z.number().optional(),
+    progress: z.number().optional(),
+    ...feedbackFields,
+  });
+}
+
+/**
+ * Converts an output schema to a ToolCallResult schema.
+ * Creates a simplified ToolCallResult schema without AtLeastOne/AtMostOne constraints.
+ */
+export function createToolCallResultSchema<InputType, OutputType>(
+  inputSchema: z.ZodType<InputType>,
+  outputSchema: z.ZodType<OutputType>,
+): z.ZodType<ToolCallResult<InputType, OutputType>> {
   // Union of success and failure
-  return z.discriminatedUnion('ok', [successSchema, failureSchema]) as z.ZodType<
-    ToolCallResult<InputType, OutputType>
-  >;
+  return z.discriminatedUnion('ok', [
+    createSuccessSchema(outputSchema),
+    createFailureSchema(inputSchema),
+  ]) as z.ZodType<ToolCallResult<InputType, OutputType>>;
+}
+
+/**
+ * Converts an output schema to an AsyncToolCallResult schema.
+ * Same as {@link createToolCallResultSchema}, with an additional branch for pending jobs.
+ */
+export function createAsyncToolCallResultSchema<InputType, OutputType>(
+  inputSchema: z.ZodType<InputType>,
+  outputSchema: z.ZodType<OutputType>,
+): z.ZodType<AsyncToolCallResult<InputType, OutputType>> {
+  return z.discriminatedUnion('ok', [
+    createSuccessSchema(outputSchema),
+    createFailureSchema(inputSchema),
+    createPendingSchema(),
+  ]) as z.ZodType<AsyncToolCallResult<InputType, OutputType>>;
+}
+
+/**
+ * Adds progress updates to a ToolCallResult schema, for the items of a streaming tool call.
+ * Takes the result schema rather than input and output schemas, so that middleware can reuse it.
+ */
+export function createStreamingToolCallResultSchema<InputType, OutputType, ProgressType>(
+  resultSchema: z.ZodType<ToolCallResult<InputType, OutputType>>,
+  progressSchema: z.ZodType<ProgressType>,
+): z.ZodType<StreamingToolCallResult<InputType, OutputType, ProgressType>> {
+  return z.union([
+    resultSchema,
+    z.object({
+      ok: z.literal('progress'),
+      update: progressSchema,
+    }),
+  ]) as z.ZodType<StreamingToolCallResult<InputType, OutputType, ProgressType>>;
+}
+
+/**
+ * Converts batch item schemas to a BatchToolCallResult schema.
+ * Success carries per-item successes, failure refers to the whole batch input,
+ * and the partial outcome carries per-item ToolCallResults.
+ */
+export function createBatchToolCallResultSchema<InputType, ItemInputType, ItemOutputType>(
+  inputSchema: z.ZodType<InputType>,
+  itemInputSchema: z.ZodType<ItemInputType>,
+  itemOutputSchema: z.ZodType<ItemOutputType>,
+): z.ZodType<BatchToolCallResult<InputType, ItemInputType, ItemOutputType>> {
+  const itemSuccessSchema = createSuccessSchema(itemOutputSchema);
+  const itemResultSchema = z.discriminatedUnion('ok', [
+    itemSuccessSchema,
+    createFailureSchema(itemInputSchema),
+  ]);
+  return z.discriminatedUnion('ok', [
+    z.object({
+      ok: z.literal(true),
+      ...feedbackFields,
+      items: z.array(itemSuccessSchema),
+    }),
+    createFailureSchema(inputSchema),
+    z.object({
+      ok: z.literal('partial'),
+      ...feedbackFields,
+      items: z.array(itemResultSchema),
+    }),
+  ]) as z.ZodType<BatchToolCallResult<InputType, ItemInputType, ItemOutputType>>;
 }
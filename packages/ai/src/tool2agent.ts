@@ -1,15 +1,42 @@
 import { type ProviderOptions, ToolCallOptions, Tool, tool } from '@ai-sdk/provider-utils';
 import { z } from 'zod';
-import type { ToolCallResult, ToolCallFailure } from '@tool2agent/types';
-import type { NonEmptyArray } from '@tool2agent/types';
-import { createToolCallResultSchema } from './tool-call-result-schema.js';
+import type {
+  ToolCallResult,
+  ToolCallFailure,
+  AsyncToolCallResult,
+  BatchToolCallResult,
+  StreamingToolCallResult,
+  JsonSchema,
+} from '@tool2agent/types';
+import {
+  createToolCallResultSchema,
+  createAsyncToolCallResultSchema,
+  createBatchToolCallResultSchema,
+  createStreamingToolCallResultSchema,
+} from './tool-call-result-schema.js';
+import { serializeDynamicSchemas } from './dynamic-schemas.js';
+import {
+  isZodSchema,
+  mkTool2AgentSchema,
+  standardIssuesToToolCallFailure,
+  toZodSchema,
+  zodErrorToToolCallFailure,
+  type AnySchema,
+  type InferSchemaOutput,
+} from '@tool2agent/schemas';
+import {
+  withConfirmation,
+  withConfirmationTokenField,
+  type ConfirmationParams,
+} from './confirmation.js';
+import { Tool2AgentError } from './errors.js';
 
 /**
  * Tool2Agent is a concrete type that represents a tool that can be used by an LLM.
  * It is compatible with AI SDK's Tool type but:
  * - Only supports type?: 'function' (the default)
  * - Always has inputSchema and outputSchema
- * - execute is mandatory and only returns Promise (not AsyncIterable)
+ * - execute is mandatory and only returns Promise (not AsyncIterable), see {@link StreamingTool2Agent} for progress updates
  */
 export type Tool2Agent<InputType, OutputType> = {
   /**
@@ -78,22 +105,53 @@ export type Tool2Agent<InputType, OutputType> = {
 
 /**
  * Parameters for creating a Tool2Agent.
- * @template InputSchema - The Zod schema for the tool's input.
- * @template OutputSchema - The Zod schema for the tool's output.
+ * @template InputSchema - The Zod (or other Standard Schema) schema for the tool's input.
+ * @template OutputSchema - The Zod (or other Standard Schema) schema for the tool's output.
  */
-export type Tool2AgentParams<
-  InputSchema extends z.ZodTypeAny,
-  OutputSchema extends z.ZodTypeAny,
-> = {
+export type Tool2AgentParams<InputSchema extends AnySchema, OutputSchema extends AnySchema> = {
   inputSchema: InputSchema;
   outputSchema: OutputSchema;
   execute: (
-    input: z.infer<InputSchema>,
+    input: InferSchemaOutput<InputSchema>,
     options: ToolCallOptions,
-  ) => Promise<ToolCallResult<z.infer<InputSchema>, z.infer<OutputSchema>>>;
+  ) => Promise<ToolCallResult<InferSchemaOutput<InputSchema>, InferSchemaOutput<OutputSchema>>>;
   catchExceptions?: boolean;
+  /**
+   * Turns caught exceptions into failures. Defaults to {@link errorToToolCallFailure},
+   * e.g. pass `error => errorToToolCallFailure(error, { includeStack: true })` to see stack traces in development.
+   */
+  formatException?: (error: unknown) => ToolCallFailure<InferSchemaOutput<InputSchema>>;
+  /**
+   * Makes the tool ask for a human confirmation before executing.
+   * Requires an object input schema: the tool gets an extra optional `confirmationToken` input field.
+   */
+  confirmation?: ConfirmationParams<InferSchemaOutput<InputSchema>>;
+  /**
+   * Checks every result against the strict tool2agent schema (see `mkTool2AgentSchema()` from `@tool2agent/schemas`),
+   * which `outputSchema` of the tool does not enforce.
+   * `'throw'` throws an error on violations, which is meant for development and tests.
+   * `'failure'` returns a non-retryable failure with a `protocol_error` problem instead.
+   * Disabled by default.
+   */
+  validateOutput?: 'throw' | 'failure';
+  /**
+   * Parses the input with `inputSchema` before anything else runs, for callers that skip AI SDK's input parsing
+   * (e.g. calling `execute` directly). Invalid input is returned as a failure whose `validationResults` are built
+   * from the Zod issues. Disabled by default. Inputs of non-Zod schemas are always validated.
+   */
+  validateInput?: boolean;
+  /**
+   * Deadline for `execute()`, in milliseconds. Slow calls are cancelled and return a retryable failure.
+   * `options.abortSignal` of `execute()` fires on timeout, and when the caller aborts the call.
+   */
+  timeoutMs?: number;
+  /**
+   * JSON Schemas of the schemas, for Standard Schema libraries that can not produce them
+   * (e.g. Valibot, via `@valibot/to-json-schema`). The input is still validated with `inputSchema`.
+   */
+  jsonSchema?: { inputSchema?: JsonSchema; outputSchema?: JsonSchema };
 } & Omit<
-  Tool2Agent<z.infer<InputSchema>, z.infer<OutputSchema>>,
+  Tool2Agent<InferSchemaOutput<InputSchema>, InferSchemaOutput<OutputSchema>>,
   'inputSchema' | 'outputSchema' | 'execute'
 >;
 
@@ -101,9 +159,19 @@ export type Tool2AgentParams<
  * Wrapper over tool() function from AI SDK that enriches it with feedback.
  * @param params - parameters for the tool2agent() function
  * @param params.execute - function that will be called when the tool is called
- * @param params.inputSchema - the schema of the input type
+ * @param params.inputSchema - the schema of the input type. Schemas of Standard Schema libraries other than Zod
+ * are converted to Zod via JSON Schema (see `toZodSchema()` from `@tool2agent/schemas`), and the input is validated with the original schema before `execute()`.
  * @param params.outputSchema - the schema of the output type (can be `typeof z.never()` if none needed)
  * @param params.catchExceptions - whether to catch exceptions and return them formatted nicely to the LLM as tool2agent `problems`. defaults to true.
+ * Throw a {@link Tool2AgentError} to return structured feedback from deep inside `execute()`.
+ * @param params.formatException - turns caught exceptions into failures. Stack traces are redacted by default.
+ * @param params.confirmation - if set, calls for which `confirmation.summarize()` returns a summary are only executed
+ * once they are repeated with the confirmation token from a `requiresConfirmation` outcome.
+ * @param params.validateOutput - if set, results that violate the tool2agent protocol either throw (`'throw'`)
+ * or are replaced with a `protocol_error` failure (`'failure'`).
+ * @param params.validateInput - whether to parse the input with `inputSchema` before executing. defaults to false.
+ * @param params.timeoutMs - if set, calls that take longer are cancelled via the abort signal and return a retryable failure.
+ * @param params.jsonSchema - JSON Schemas of the schemas, for libraries that can not produce them.
  * @returns a Tool2Agent type that can be used by AI SDK tools.
  * @example
  * const tool = tool2agent({
@@ -114,35 +182,56 @@ export type Tool2AgentParams<
  *   },
  * });
  */
-export function tool2agent<InputSchema extends z.ZodTypeAny, OutputSchema extends z.ZodTypeAny>(
+export function tool2agent<InputSchema extends AnySchema, OutputSchema extends AnySchema>(
   params: Tool2AgentParams<InputSchema, OutputSchema>,
-): Tool2Agent<z.infer<InputSchema>, z.infer<OutputSchema>> {
+): Tool2Agent<InferSchemaOutput<InputSchema>, InferSchemaOutput<OutputSchema>> {
   const {
-    execute,
+    execute: executeParam,
     inputSchema: inputSchemaParam,
     outputSchema: outputSchemaParam,
+    confirmation,
+    validateOutput,
+    validateInput,
+    timeoutMs,
+    catchExceptions,
+    formatException,
+    jsonSchema = {},
     ...rest
   } = params;
-  type InputType = z.infer<InputSchema>;
-  type OutputType = z.infer<OutputSchema>;
-  const inputSchema = inputSchemaParam as z.ZodType<InputType>;
-  const outputSchema = outputSchemaParam as z.ZodType<OutputType>;
-  const executeFunction = async (
-    input: InputType,
-    options: ToolCallOptions,
-  ): Promise<ToolCallResult<InputType, OutputType>> => {
-    // format exception into tool2agent rejection reason
-
-    if (typeof params.catchExceptions === 'undefined' || params.catchExceptions) {
-      try {
-        return await execute(input, options);
-      } catch (error: unknown) {
-        return errorToToolCallFailure<InputType>(error);
-      }
-    } else {
-      return await execute(input, options);
-    }
-  };
+  type InputType = InferSchemaOutput<InputSchema>;
+  type OutputType = InferSchemaOutput<OutputSchema>;
+  const inputSchema = toZodSchema(inputSchemaParam, {
+    jsonSchema: jsonSchema.inputSchema,
+  }) as z.ZodType<InputType>;
+  const outputSchema = toZodSchema(outputSchemaParam, {
+    jsonSchema: jsonSchema.outputSchema,
+    io: 'output',
+  }) as z.ZodType<OutputType>;
+  const execute = withStandardValidation(executeParam, inputSchemaParam, inputSchema);
+  const toolInputSchema = confirmation ? withConfirmationTokenField(inputSchema) : inputSchema;
+  const confirmedExecute = confirmation ? withConfirmation(execute, confirmation) : execute;
+  const serializedExecute = withSerializedSchemas(
+    withAbortHandling(
+      withExceptionHandling<InputType, ToolCallResult<InputType, OutputType>>(
+        // The confirmation token is part of the tool input, so it is parsed along with the rest
+        validateInput && isZodSchema(inputSchemaParam)
+          ? withInputValidation(confirmedExecute, toolInputSchema)
+          : confirmedExecute,
+        catchExceptions,
+        formatException,
+      ),
+      timeoutMs,
+    ),
+  );
+  // Results are checked in their wire form, after the exception handling, so that 'throw' really throws
+  const executeFunction = validateOutput
+    ? withOutputValidation(
+        serializedExecute,
+        // Compact mode: the schema is only used for parsing, and is much cheaper to build
+        mkTool2AgentSchema(inputSchema, outputSchema, { compact: true }),
+        validateOutput,
+      )
+    : serializedExecute;
 
   // Convert outputSchema to ToolCallResult schema
   const toolCallResultSchema = createToolCallResultSchema<InputType, OutputType>(
@@ -152,7 +241,7 @@ export function tool2agent<InputSchema extends z.ZodTypeAny, OutputSchema extend
 
   const theTool: Tool2Agent<InputType, OutputType> = {
     ...rest,
-    inputSchema,
+    inputSchema: toolInputSchema,
     outputSchema: toolCallResultSchema,
     execute: executeFunction,
   };
@@ -161,42 +250,611 @@ export function tool2agent<InputSchema extends z.ZodTypeAny, OutputSchema extend
   return theTool;
 }
 
-function errorToToolCallFailure<InputType>(error: unknown): ToolCallFailure<InputType> {
-  const errorMessage = `Exception occured during tool call execution: `;
-  if (error instanceof Error) {
-    if (error.stack) {
-      return {
-        ok: false as const,
-        problems: [errorMessage + error.stack],
-      } as ToolCallFailure<InputType>;
+/**
+ * Tool2Agent counterpart for tools whose outcome is not a plain {@link ToolCallResult},
+ * e.g. tools that may start long-running jobs or that process batches of items.
+ * @template InputType - The input type of the tool
+ * @template ResultType - The union of outcomes that the tool may produce
+ */
+export type Tool2AgentWithResult<InputType, ResultType> = Omit<
+  Tool2Agent<InputType, never>,
+  'outputSchema' | 'execute' | 'toModelOutput'
+> & {
+  /**
+   * The schema of the output that the tool produces.
+   * This describes the union of outcomes of the tool.
+   */
+  outputSchema: z.ZodType<ResultType>;
+  /**
+   * Mandatory function that is called with the arguments from the tool call and produces a result.
+   * Always returns a Promise (not AsyncIterable).
+   */
+  execute: (input: InputType, options: ToolCallOptions) => Promise<ResultType>;
+  /**
+   * Optional conversion function that maps the tool result to an output that can be used by the language model.
+   * If not provided, the tool result will be sent as a JSON object.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  toModelOutput?: (output: ResultType) => any;
+};
+
+/**
+ * Tool2Agent counterpart for tools that may start long-running jobs.
+ * `execute` may return a pending outcome ({@link AsyncToolCallResult}) that carries a job id
+ * the agent can use to check back later, e.g. via {@link jobStatusTool}.
+ */
+export type AsyncTool2Agent<InputType, OutputType> = Tool2AgentWithResult<
+  InputType,
+  AsyncToolCallResult<InputType, OutputType>
+>;
+
+/**
+ * Parameters for creating an AsyncTool2Agent.
+ * Same as {@link Tool2AgentParams}, but `execute` may return a pending outcome.
+ */
+export type AsyncTool2AgentParams<InputSchema extends AnySchema, OutputSchema extends AnySchema> = {
+  inputSchema: InputSchema;
+  outputSchema: OutputSchema;
+  execute: (
+    input: InferSchemaOutput<InputSchema>,
+    options: ToolCallOptions,
+  ) => Promise<
+    AsyncToolCallResult<InferSchemaOutput<InputSchema>, InferSchemaOutput<OutputSchema>>
+  >;
+  catchExceptions?: boolean;
+  /** Turns caught exceptions into failures, see {@link Tool2AgentParams}. */
+  formatException?: (error: unknown) => ToolCallFailure<InferSchemaOutput<InputSchema>>;
+  /** JSON Schemas of the schemas, see {@link Tool2AgentParams}. */
+  jsonSchema?: { inputSchema?: JsonSchema; outputSchema?: JsonSchema };
+} & Omit<
+  AsyncTool2Agent<InferSchemaOutput<InputSchema>, InferSchemaOutput<OutputSchema>>,
+  'inputSchema' | 'outputSchema' | 'execute'
+>;
+
+/**
+ * Variant of {@link tool2agent} for tools that start long-running jobs.
+ * `execute` may return `{ ok: 'pending', jobId, pollAfterMs?, progress? }` instead of blocking until the job is done.
+ * @param params - parameters for the asyncTool2agent() function, same as for tool2agent()
+ * @returns an AsyncTool2Agent type that can be used by AI SDK tools.
+ * @example
+ * const tool = asyncTool2agent({
+ *   inputSchema: z.object({ month: z.string() }),
+ *   outputSchema: z.object({ reportUrl: z.string() }),
+ *   execute: async (params) => {
+ *     const jobId = await reports.start(params.month);
+ *     return { ok: 'pending', jobId, pollAfterMs: 10_000 };
+ *   },
+ * });
+ */
+export function asyncTool2agent<InputSchema extends AnySchema, OutputSchema extends AnySchema>(
+  params: AsyncTool2AgentParams<InputSchema, OutputSchema>,
+): AsyncTool2Agent<InferSchemaOutput<InputSchema>, InferSchemaOutput<OutputSchema>> {
+  const {
+    execute: executeParam,
+    inputSchema: inputSchemaParam,
+    outputSchema: outputSchemaParam,
+    catchExceptions,
+    formatException,
+    jsonSchema = {},
+    ...rest
+  } = params;
+  type InputType = InferSchemaOutput<InputSchema>;
+  type OutputType = InferSchemaOutput<OutputSchema>;
+  const inputSchema = toZodSchema(inputSchemaParam, {
+    jsonSchema: jsonSchema.inputSchema,
+  }) as z.ZodType<InputType>;
+  const outputSchema = toZodSchema(outputSchemaParam, {
+    jsonSchema: jsonSchema.outputSchema,
+    io: 'output',
+  }) as z.ZodType<OutputType>;
+  const execute = withStandardValidation(executeParam, inputSchemaParam, inputSchema);
+
+  const theTool: AsyncTool2Agent<InputType, OutputType> = {
+    ...rest,
+    inputSchema,
+    outputSchema: createAsyncToolCallResultSchema<InputType, OutputType>(inputSchema, outputSchema),
+    execute: withSerializedSchemas(
+      withExceptionHandling(execute, catchExceptions, formatException),
+    ),
+  };
+  // This is only for type checking, to ensure assignability
+  const _aiTool: Tool<InputType, AsyncToolCallResult<InputType, OutputType>> = tool(theTool);
+  return theTool;
+}
+
+/**
+ * Tool2Agent counterpart for tools that take a batch of items.
+ * `execute` may return a partial outcome ({@link BatchToolCallResult}) with per-item results,
+ * so that the agent can retry only the rejected items.
+ */
+export type BatchTool2Agent<InputType, ItemInputType, ItemOutputType> = Tool2AgentWithResult<
+  InputType,
+  BatchToolCallResult<InputType, ItemInputType, ItemOutputType>
+>;
+
+/**
+ * Parameters for creating a BatchTool2Agent.
+ * @template InputSchema - The Zod (or other Standard Schema) schema for the tool's input (the whole batch).
+ * @template ItemInputSchema - The Zod (or other Standard Schema) schema for a single item of the batch.
+ * @template ItemOutputSchema - The Zod (or other Standard Schema) schema for the output produced for a single item.
+ */
+export type BatchTool2AgentParams<
+  InputSchema extends AnySchema,
+  ItemInputSchema extends AnySchema,
+  ItemOutputSchema extends AnySchema,
+> = {
+  inputSchema: InputSchema;
+  itemInputSchema: ItemInputSchema;
+  itemOutputSchema: ItemOutputSchema;
+  execute: (
+    input: InferSchemaOutput<InputSchema>,
+    options: ToolCallOptions,
+  ) => Promise<
+    BatchToolCallResult<
+      InferSchemaOutput<InputSchema>,
+      InferSchemaOutput<ItemInputSchema>,
+      InferSchemaOutput<ItemOutputSchema>
+    >
+  >;
+  catchExceptions?: boolean;
+  /** Turns caught exceptions into failures, see {@link Tool2AgentParams}. */
+  formatException?: (error: unknown) => ToolCallFailure<InferSchemaOutput<InputSchema>>;
+  /** JSON Schemas of the schemas, see {@link Tool2AgentParams}. */
+  jsonSchema?: {
+    inputSchema?: JsonSchema;
+    itemInputSchema?: JsonSchema;
+    itemOutputSchema?: JsonSchema;
+  };
+} & Omit<
+  BatchTool2Agent<
+    InferSchemaOutput<InputSchema>,
+    InferSchemaOutput<ItemInputSchema>,
+    InferSchemaOutput<ItemOutputSchema>
+  >,
+  'inputSchema' | 'outputSchema' | 'execute'
+>;
+
+/**
+ * Variant of {@link tool2agent} for tools that take a batch of items and may accept only some of them.
+ * Use {@link batchToolCallResult} or {@link executeBatch} to assemble the outcome from per-item results.
+ * @param params - parameters for the batchTool2agent() function
+ * @param params.inputSchema - the schema of the whole batch input
+ * @param params.itemInputSchema - the schema of a single item; per-item feedback refers to its fields
+ * @param params.itemOutputSchema - the schema of the output produced for a single item
+ * @returns a BatchTool2Agent type that can be used by AI SDK tools.
+ * @example
+ * const seat = z.object({ row: z.number(), letter: z.string() });
+ * const tool = batchTool2agent({
+ *   inputSchema: z.object({ seats: z.array(seat) }),
+ *   itemInputSchema: seat,
+ *   itemOutputSchema: z.object({ bookingId: z.string() }),
+ *   execute: async ({ seats }) => executeBatch(seats, bookSeat),
+ * });
+ */
+export function batchTool2agent<
+  InputSchema extends AnySchema,
+  ItemInputSchema extends AnySchema,
+  ItemOutputSchema extends AnySchema,
+>(
+  params: BatchTool2AgentParams<InputSchema, ItemInputSchema, ItemOutputSchema>,
+): BatchTool2Agent<
+  InferSchemaOutput<InputSchema>,
+  InferSchemaOutput<ItemInputSchema>,
+  InferSchemaOutput<ItemOutputSchema>
+> {
+  const {
+    execute: executeParam,
+    inputSchema: inputSchemaParam,
+    itemInputSchema: itemInputSchemaParam,
+    itemOutputSchema: itemOutputSchemaParam,
+    catchExceptions,
+    formatException,
+    jsonSchema = {},
+    ...rest
+  } = params;
+  type InputType = InferSchemaOutput<InputSchema>;
+  type ItemInputType = InferSchemaOutput<ItemInputSchema>;
+  type ItemOutputType = InferSchemaOutput<ItemOutputSchema>;
+  const inputSchema = toZodSchema(inputSchemaParam, {
+    jsonSchema: jsonSchema.inputSchema,
+  }) as z.ZodType<InputType>;
+  const itemInputSchema = toZodSchema(itemInputSchemaParam, {
+    jsonSchema: jsonSchema.itemInputSchema,
+  }) as z.ZodType<ItemInputType>;
+  const itemOutputSchema = toZodSchema(itemOutputSchemaParam, {
+    jsonSchema: jsonSchema.itemOutputSchema,
+    io: 'output',
+  }) as z.ZodType<ItemOutputType>;
+  const execute = withStandardValidation(executeParam, inputSchemaParam, inputSchema);
+
+  const theTool: BatchTool2Agent<InputType, ItemInputType, ItemOutputType> = {
+    ...rest,
+    inputSchema,
+    outputSchema: createBatchToolCallResultSchema<InputType, ItemInputType, ItemOutputType>(
+      inputSchema,
+      itemInputSchema,
+      itemOutputSchema,
+    ),
+    execute: withSerializedSchemas(
+      withExceptionHandling(execute, catchExceptions, formatException),
+    ),
+  };
+  // This is only for type checking, to ensure assignability
+  const _aiTool: Tool<
+    InputType,
+    BatchToolCallResult<InputType, ItemInputType, ItemOutputType>
+  > = tool(theTool);
+  return theTool;
+}
+
+/**
+ * Tool2Agent counterpart for tools that report progress while they run.
+ * `execute` returns a stream of progress updates, followed by the final {@link ToolCallResult},
+ * which AI SDK passes on as preliminary and final tool results.
+ * @template InputType - The input type of the tool
+ * @template OutputType - The output type of the final result
+ * @template ProgressType - The type of progress updates
+ */
+export type StreamingTool2Agent<InputType, OutputType, ProgressType> = Omit<
+  Tool2AgentWithResult<InputType, StreamingToolCallResult<InputType, OutputType, ProgressType>>,
+  'execute'
+> & {
+  /**
+   * The schema of progress updates, without the `{ ok: 'progress' }` envelope.
+   */
+  progressSchema: z.ZodType<ProgressType>;
+  /**
+   * Mandatory function that is called with the arguments from the tool call.
+   * Yields `{ ok: 'progress', update }` items, and the final result as the last item.
+   */
+  execute: (
+    input: InputType,
+    options: ToolCallOptions,
+  ) => AsyncIterable<StreamingToolCallResult<InputType, OutputType, ProgressType>>;
+};
+
+/**
+ * Parameters for creating a StreamingTool2Agent.
+ * @template InputSchema - The Zod (or other Standard Schema) schema for the tool's input.
+ * @template OutputSchema - The Zod (or other Standard Schema) schema for the output of the final result.
+ * @template ProgressSchema - The Zod (or other Standard Schema) schema for progress updates.
+ */
+export type StreamingTool2AgentParams<
+  InputSchema extends AnySchema,
+  OutputSchema extends AnySchema,
+  ProgressSchema extends AnySchema,
+> = {
+  inputSchema: InputSchema;
+  outputSchema: OutputSchema;
+  progressSchema: ProgressSchema;
+  /**
+   * Async generator that yields progress updates and returns the final result.
+   */
+  execute: (
+    input: InferSchemaOutput<InputSchema>,
+    options: ToolCallOptions,
+  ) => AsyncGenerator<
+    InferSchemaOutput<ProgressSchema>,
+    ToolCallResult<InferSchemaOutput<InputSchema>, InferSchemaOutput<OutputSchema>>,
+    undefined
+  >;
+  catchExceptions?: boolean;
+  /** Turns caught exceptions into failures, see {@link Tool2AgentParams}. */
+  formatException?: (error: unknown) => ToolCallFailure<InferSchemaOutput<InputSchema>>;
+  /** JSON Schemas of the schemas, see {@link Tool2AgentParams}. */
+  jsonSchema?: { inputSchema?: JsonSchema; outputSchema?: JsonSchema; progressSchema?: JsonSchema };
+} & Omit<
+  StreamingTool2Agent<
+    InferSchemaOutput<InputSchema>,
+    InferSchemaOutput<OutputSchema>,
+    InferSchemaOutput<ProgressSchema>
+  >,
+  'inputSchema' | 'outputSchema' | 'progressSchema' | 'execute'
+>;
+
+/**
+ * Variant of {@link tool2agent} for tools that report progress while they run, e.g. searches over many providers.
+ * `execute` is an async generator: every yielded value becomes a `{ ok: 'progress', update }` item of the output stream,
+ * and the returned value becomes the final result. Exceptions end the stream with a failure, as in tool2agent().
+ * @param params - parameters for the streamingTool2agent() function
+ * @param params.progressSchema - the schema of progress updates
+ * @returns a StreamingTool2Agent type that can be used by AI SDK tools.
+ * @example
+ * const tool = streamingTool2agent({
+ *   inputSchema: z.object({ route: z.string() }),
+ *   outputSchema: z.object({ cheapest: z.number() }),
+ *   progressSchema: z.object({ checked: z.number(), total: z.number() }),
+ *   execute: async function* ({ route }) {
+ *     const prices = [];
+ *     for (const [index, airline] of airlines.entries()) {
+ *       prices.push(await airline.price(route));
+ *       yield { checked: index + 1, total: airlines.length };
+ *     }
+ *     return { ok: true, cheapest: Math.min(...prices) };
+ *   },
+ * });
+ */
+export function streamingTool2agent<
+  InputSchema extends AnySchema,
+  OutputSchema extends AnySchema,
+  ProgressSchema extends AnySchema,
+>(
+  params: StreamingTool2AgentParams<InputSchema, OutputSchema, ProgressSchema>,
+): StreamingTool2Agent<
+  InferSchemaOutput<InputSchema>,
+  InferSchemaOutput<OutputSchema>,
+  InferSchemaOutput<ProgressSchema>
+> {
+  const {
+    execute: executeParam,
+    inputSchema: inputSchemaParam,
+    outputSchema: outputSchemaParam,
+    progressSchema: progressSchemaParam,
+    catchExceptions,
+    formatException = errorToToolCallFailure,
+    jsonSchema = {},
+    ...rest
+  } = params;
+  type InputType = InferSchemaOutput<InputSchema>;
+  type OutputType = InferSchemaOutput<OutputSchema>;
+  type ProgressType = InferSchemaOutput<ProgressSchema>;
+  const inputSchema = toZodSchema(inputSchemaParam, {
+    jsonSchema: jsonSchema.inputSchema,
+  }) as z.ZodType<InputType>;
+  const outputSchema = toZodSchema(outputSchemaParam, {
+    jsonSchema: jsonSchema.outputSchema,
+    io: 'output',
+  }) as z.ZodType<OutputType>;
+  const progressSchema = toZodSchema(progressSchemaParam, {
+    jsonSchema: jsonSchema.progressSchema,
+    io: 'output',
+  }) as z.ZodType<ProgressType>;
+  const execute = withStandardStreamingValidation(executeParam, inputSchemaParam, inputSchema);
+
+  const theTool: StreamingTool2Agent<InputType, OutputType, ProgressType> = {
+    ...rest,
+    inputSchema,
+    outputSchema: createStreamingToolCallResultSchema(
+      createToolCallResultSchema<InputType, OutputType>(inputSchema, outputSchema),
+      progressSchema,
+    ),
+    progressSchema,
+    execute: async function* (input, options) {
+      let result: ToolCallResult<InputType, OutputType>;
+      try {
+        const generator = execute(input, options);
+        let next: IteratorResult<ProgressType, ToolCallResult<InputType, OutputType>> | undefined;
+        try {
+          next = await generator.next();
+          while (!next.done) {
+            yield { ok: 'progress', update: next.value };
+            next = await generator.next();
+          }
+        } finally {
+          // The consumer has stopped reading the stream early, or the generator has thrown
+          if (!next?.done) await generator.return(undefined as never);
+        }
+        result = next.value;
+      } catch (error: unknown) {
+        if (typeof catchExceptions !== 'undefined' && !catchExceptions) throw error;
+        result = formatException(error);
+      }
+      yield serializeDynamicSchemas(result);
+    },
+  };
+  // This is only for type checking, to ensure assignability
+  const _aiTool: Tool<
+    InputType,
+    StreamingToolCallResult<InputType, OutputType, ProgressType>
+  > = tool(theTool);
+  return theTool;
+}
+
+/**
+ * Wraps execute so that exceptions are formatted into tool2agent rejection reasons,
+ * unless catchExceptions is explicitly disabled.
+ */
+function withExceptionHandling<InputType, Result>(
+  execute: (input: InputType, options: ToolCallOptions) => Promise<Result>,
+  catchExceptions: boolean | undefined,
+  formatException: (error: unknown) => ToolCallFailure<InputType> = errorToToolCallFailure,
+): (input: InputType, options: ToolCallOptions) => Promise<Result | ToolCallFailure<InputType>> {
+  if (typeof catchExceptions !== 'undefined' && !catchExceptions) {
+    return execute;
+  }
+  return async (input: InputType, options: ToolCallOptions) => {
+    try {
+      return await execute(input, options);
+    } catch (error: unknown) {
+      return formatException(error);
     }
-    if (error.message && error.name) {
-      return {
-        ok: false,
-        problems: [errorMessage + error.name + ': ' + error.message],
-      } as ToolCallFailure<InputType>;
+  };
+}
+
+/**
+ * Wraps execute so that it is cancelled when the caller aborts the call, or when it takes longer than timeoutMs.
+ * execute gets a signal that fires in both cases, and the LLM gets a retryable failure right away,
+ * without waiting for execute to notice.
+ */
+function withAbortHandling<InputType, Result>(
+  execute: (input: InputType, options: ToolCallOptions) => Promise<Result>,
+  timeoutMs: number | undefined,
+): (input: InputType, options: ToolCallOptions) => Promise<Result | ToolCallFailure<InputType>> {
+  return async (input: InputType, options: ToolCallOptions) => {
+    const callerSignal = options.abortSignal;
+    if (timeoutMs === undefined && !callerSignal) {
+      return await execute(input, options);
+    }
+    // AbortSignal.any() is not available in Node 18
+    const controller = new AbortController();
+    let timedOut = false;
+    const abort = () => controller.abort(callerSignal?.reason);
+    const aborted = new Promise<ToolCallFailure<InputType>>(resolve => {
+      controller.signal.addEventListener('abort', () => {
+        const problem = timedOut
+          ? `Tool call timed out after ${timeoutMs} ms`
+          : 'Tool call was aborted';
+        resolve({ ok: false, problems: [problem], retryable: true } as ToolCallFailure<InputType>);
+      });
+    });
+    if (callerSignal?.aborted) {
+      abort();
+      return await aborted;
+    }
+    callerSignal?.addEventListener('abort', abort);
+    const timer =
+      timeoutMs === undefined
+        ? undefined
+        : setTimeout(() => {
+            timedOut = true;
+            controller.abort(new Error(`Tool call timed out after ${timeoutMs} ms`));
+          }, timeoutMs);
+    try {
+      return await Promise.race([
+        execute(input, { ...options, abortSignal: controller.signal }),
+        aborted,
+      ]);
+    } finally {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener('abort', abort);
+    }
+  };
+}
+
+/**
+ * Wraps execute so that the input is parsed (and transformed) by the Zod input schema first.
+ * Validation issues are returned to the LLM as a failure, grouped by input field.
+ */
+function withInputValidation<InputType, OutputType>(
+  execute: (
+    input: InputType,
+    options: ToolCallOptions,
+  ) => Promise<ToolCallResult<InputType, OutputType>>,
+  inputSchema: z.ZodType<InputType>,
+): (input: InputType, options: ToolCallOptions) => Promise<ToolCallResult<InputType, OutputType>> {
+  return async (input, options) => {
+    const parsed = inputSchema.safeParse(input);
+    if (!parsed.success) return zodErrorToToolCallFailure(inputSchema, parsed.error);
+    return await execute(parsed.data, options);
+  };
+}
+
+/**
+ * Wraps execute so that the input is validated (and transformed) by a non-Zod Standard Schema first:
+ * its Zod conversion only covers what JSON Schema can express, so the original schema has the final say.
+ * Validation issues are returned to the LLM as a failure, grouped by the fields of the converted schema.
+ */
+function withStandardValidation<InputType, Result>(
+  execute: (input: InputType, options: ToolCallOptions) => Promise<Result>,
+  inputSchema: AnySchema,
+  zodInputSchema: z.ZodType<InputType>,
+): (input: InputType, options: ToolCallOptions) => Promise<Result | ToolCallFailure<InputType>> {
+  if (isZodSchema(inputSchema)) return execute;
+  return async (input, options) => {
+    const result = await inputSchema['~standard'].validate(input);
+    if (result.issues) return standardIssuesToToolCallFailure(zodInputSchema, result.issues);
+    return await execute(result.value as InputType, options);
+  };
+}
+
+/**
+ * Same as {@link withStandardValidation}, for the generators of streaming tools.
+ */
+function withStandardStreamingValidation<InputType, ProgressType, Result>(
+  execute: (input: InputType, options: ToolCallOptions) => AsyncGenerator<ProgressType, Result>,
+  inputSchema: AnySchema,
+  zodInputSchema: z.ZodType<InputType>,
+): (
+  input: InputType,
+  options: ToolCallOptions,
+) => AsyncGenerator<ProgressType, Result | ToolCallFailure<InputType>> {
+  if (isZodSchema(inputSchema)) return execute;
+  return async function* (input, options) {
+    const result = await inputSchema['~standard'].validate(input);
+    if (result.issues) return standardIssuesToToolCallFailure(zodInputSchema, result.issues);
+    return yield* execute(result.value as InputType, options);
+  };
+}
+
+/**
+ * Wraps execute so that results are parsed with the strict tool2agent schema.
+ * Violations are mistakes of the tool author, so the failure tells the LLM not to retry.
+ */
+function withOutputValidation<InputType, Result>(
+  execute: (input: InputType, options: ToolCallOptions) => Promise<Result>,
+  strictSchema: z.ZodType<unknown>,
+  mode: 'throw' | 'failure',
+): (input: InputType, options: ToolCallOptions) => Promise<Result | ToolCallFailure<InputType>> {
+  return async (input: InputType, options: ToolCallOptions) => {
+    const result = await execute(input, options);
+    const parsed = strictSchema.safeParse(result);
+    if (parsed.success) return result;
+    const message = `Tool result does not follow the tool2agent protocol:\n${z.prettifyError(parsed.error)}`;
+    if (mode === 'throw') {
+      throw new Error(message);
     }
     return {
       ok: false,
-      problems: [errorMessage + error.toString()],
+      problems: [{ code: 'protocol_error', message }],
+      retryable: false,
     } as ToolCallFailure<InputType>;
+  };
+}
+
+/**
+ * Wraps execute so that dynamic parameter schemas in the result are converted to JSON Schema
+ * before the result leaves the tool.
+ */
+function withSerializedSchemas<InputType, Result>(
+  execute: (input: InputType, options: ToolCallOptions) => Promise<Result>,
+): (input: InputType, options: ToolCallOptions) => Promise<Result> {
+  return async (input: InputType, options: ToolCallOptions) =>
+    serializeDynamicSchemas(await execute(input, options));
+}
+
+/**
+ * Formats a caught exception into a failure that is returned to the LLM.
+ * A {@link Tool2AgentError} becomes the failure it describes.
+ * Other exceptions usually come from the environment (network, backends) rather than from the input,
+ * so the failure is marked as retryable.
+ * @param error - the caught exception
+ * @param options.includeStack - whether to include the stack trace, which is redacted by default
+ * @returns the failure to return to the LLM
+ */
+export function errorToToolCallFailure<InputType>(
+  error: unknown,
+  options: { includeStack?: boolean } = {},
+): ToolCallFailure<InputType> {
+  if (error instanceof Tool2AgentError) {
+    return error.toToolCallFailure() as ToolCallFailure<InputType>;
+  }
+  const errorMessage = `Exception occured during tool call execution: `;
+  return {
+    ok: false,
+    problems: [errorMessage + formatError(error, options.includeStack ?? false)],
+    retryable: true,
+  } as ToolCallFailure<InputType>;
+}
+
+function formatError(error: unknown, includeStack: boolean): string {
+  if (error instanceof Error) {
+    if (includeStack && error.stack) {
+      return error.stack;
+    }
+    if (error.message && error.name) {
+      return error.name + ': ' + error.message;
+    }
+    return error.toString();
   }
   // Try JSON.stringify for non-Error exceptions
   try {
     const jsonString = JSON.stringify(error);
     if (jsonString !== undefined) {
-      return {
-        ok: false,
-        problems: [errorMessage + jsonString],
-      } as ToolCallFailure<InputType>;
+      return jsonString;
     }
   } catch {
     // Fall through to String() fallback
   }
   // Fall back to String() if JSON.stringify fails or returns undefined
-  const problems: NonEmptyArray<string> = [errorMessage + String(error)];
-  return {
-    ok: false,
-    problems,
-  } as ToolCallFailure<InputType>;
+  return String(error);
 }
@@ -1,6 +1,12 @@
 import { type Expect, type Equal } from './expect.js';
-import { type Tool2Agent, tool2agent } from '../src/index.js';
+import {
+  type Tool2Agent,
+  tool2agent,
+  type StreamingTool2Agent,
+  streamingTool2agent,
+} from '../src/index.js';
 import { z } from 'zod';
+import type { StandardSchemaV1 } from '@tool2agent/schemas';
 
 // The purpose of this file is to assert compile-time types only (no runtime).
 
@@ -63,3 +69,53 @@ type TestExecuteRequired = Expect<
 
 // Runtime test: verify execute exists at runtime
 const _testExecuteExists: typeof testTool.execute = testTool.execute;
+
+// ==================== Test: Standard Schema input and output ====================
+
+declare const standardInputSchema: StandardSchemaV1<
+  { city: string },
+  { city: string; country: string }
+>;
+declare const standardOutputSchema: StandardSchemaV1<{ price: number }>;
+
+const standardTool = tool2agent({
+  inputSchema: standardInputSchema,
+  outputSchema: standardOutputSchema,
+  execute: async input => ({ ok: true, price: input.country.length }),
+});
+
+// Type-level test: the tool is typed by the output side of the schemas
+type TestStandardSchemaTool = Expect<
+  Equal<typeof standardTool, Tool2Agent<{ city: string; country: string }, { price: number }>>
+>;
+
+// ==================== Test: streaming tools ====================
+
+const streamingTool = streamingTool2agent({
+  inputSchema: testInputSchema,
+  outputSchema: z.object({ greeting: z.string() }),
+  progressSchema: z.object({ percent: z.number() }),
+  execute: async function* (input) {
+    yield { percent: 50 };
+    return { ok: true, greeting: `Hello, ${input.name}` };
+  },
+});
+
+// Type-level test: the tool is typed by the input, output and progress schemas
+type TestStreamingTool = Expect<
+  Equal<
+    typeof streamingTool,
+    StreamingTool2Agent<TestInputType, { greeting: string }, { percent: number }>
+  >
+>;
+
+streamingTool2agent({
+  inputSchema: testInputSchema,
+  outputSchema: z.object({ greeting: z.string() }),
+  progressSchema: z.object({ percent: z.number() }),
+  // @ts-expect-error - progress updates must match the progress schema
+  execute: async function* () {
+    yield { percent: 'half' };
+    return { ok: true, greeting: 'Hello' };
+  },
+});
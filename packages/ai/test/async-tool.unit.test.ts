@@ -0,0 +1,98 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { asyncTool2agent, jobStatusTool } from '../src/index.js';
+import { z } from 'zod';
+
+const inputSchema = z.object({ month: z.string() });
+const outputSchema = z.object({ reportUrl: z.string() });
+
+const options = { toolCallId: 'test', messages: [] };
+
+describe('asyncTool2agent', () => {
+  it('returns pending outcome from execute', async () => {
+    const tool = asyncTool2agent({
+      inputSchema,
+      outputSchema,
+      execute: async () => ({ ok: 'pending', jobId: 'job-1', pollAfterMs: 1000 }),
+    });
+
+    const result = await tool.execute({ month: '2026-10' }, options);
+    expect(result).to.deep.equal({ ok: 'pending', jobId: 'job-1', pollAfterMs: 1000 });
+  });
+
+  it('output schema accepts all outcomes', () => {
+    const tool = asyncTool2agent({
+      inputSchema,
+      outputSchema,
+      execute: async () => ({ ok: 'pending', jobId: 'job-1' }),
+    });
+
+    expect(tool.outputSchema.safeParse({ ok: true, reportUrl: 'https://x' }).success).to.be.true;
+    expect(tool.outputSchema.safeParse({ ok: false, problems: ['x'] }).success).to.be.true;
+    expect(tool.outputSchema.safeParse({ ok: 'pending', jobId: 'job-1', progress: 0.5 }).success).to
+      .be.true;
+    expect(tool.outputSchema.safeParse({ ok: 'pending' }).success).to.be.false;
+  });
+
+  it('catches exceptions by default', async () => {
+    const tool = asyncTool2agent({
+      inputSchema,
+      outputSchema,
+      execute: async () => {
+        throw 'String error';
+      },
+    });
+
+    const result = await tool.execute({ month: '2026-10' }, options);
+    expect(result).to.deep.equal({
+      ok: false,
+      problems: ['Exception occured during tool call execution: "String error"'],
+      retryable: true,
+    });
+  });
+});
+
+describe('jobStatusTool', () => {
+  it('reports progress until the job is done', async () => {
+    const progress = [0.5, 1];
+    const checkReport = jobStatusTool({
+      outputSchema,
+      getStatus: async jobId => {
+        const current = progress.shift();
+        if (current === undefined) {
+          return { ok: false, problems: [`Unknown job: ${jobId}`] };
+        }
+        if (current < 1) {
+          return { ok: 'pending', jobId, progress: current, pollAfterMs: 10 };
+        }
+        return { ok: true, reportUrl: `https://reports/${jobId}` };
+      },
+    });
+
+    expect(await checkReport.execute({ jobId: 'job-1' }, options)).to.deep.equal({
+      ok: 'pending',
+      jobId: 'job-1',
+      progress: 0.5,
+      pollAfterMs: 10,
+    });
+    expect(await checkReport.execute({ jobId: 'job-1' }, options)).to.deep.equal({
+      ok: true,
+      reportUrl: 'https://reports/job-1',
+    });
+    expect(await checkReport.execute({ jobId: 'job-1' }, options)).to.deep.equal({
+      ok: false,
+      problems: ['Unknown job: job-1'],
+    });
+  });
+
+  it('accepts jobId as input', () => {
+    const checkReport = jobStatusTool({
+      outputSchema,
+      getStatus: async jobId => ({ ok: 'pending', jobId }),
+    });
+
+    expect(checkReport.inputSchema.safeParse({ jobId: 'job-1' }).success).to.be.true;
+    expect(checkReport.inputSchema.safeParse({}).success).to.be.false;
+    expect(checkReport.description).to.be.a('string');
+  });
+});
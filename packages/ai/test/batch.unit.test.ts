@@ -0,0 +1,157 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { batchTool2agent, batchToolCallResult, executeBatch } from '../src/index.js';
+import type { ToolCallResult } from '@tool2agent/types';
+import { z } from 'zod';
+
+const seatSchema = z.object({ row: z.number(), letter: z.string() });
+const inputSchema = z.object({ seats: z.array(seatSchema) });
+const seatBookingSchema = z.object({ bookingId: z.string() });
+
+type Seat = z.infer<typeof seatSchema>;
+type SeatBooking = z.infer<typeof seatBookingSchema>;
+
+const options = { toolCallId: 'test', messages: [] };
+
+const bookSeat = async (seat: Seat): Promise<ToolCallResult<Seat, SeatBooking>> => {
+  if (seat.letter === 'A') {
+    return {
+      ok: false,
+      validationResults: {
+        letter: { valid: false, problems: ['Seat is taken'], suggestedValues: ['B'] },
+      },
+    };
+  }
+  return { ok: true, bookingId: `${seat.row}${seat.letter}` };
+};
+
+describe('batchToolCallResult', () => {
+  it('returns ok: true when every item is accepted', () => {
+    expect(batchToolCallResult([{ ok: true, bookingId: '1B' }])).to.deep.equal({
+      ok: true,
+      items: [{ ok: true, bookingId: '1B' }],
+    });
+  });
+
+  it('returns ok: partial when some items are rejected', () => {
+    expect(
+      batchToolCallResult(
+        [
+          { ok: true, bookingId: '1B' },
+          { ok: false, problems: ['Seat is taken'] },
+        ],
+        { feedback: ['1 of 2 seats booked'] },
+      ),
+    ).to.deep.equal({
+      ok: 'partial',
+      feedback: ['1 of 2 seats booked'],
+      items: [
+        { ok: true, bookingId: '1B' },
+        { ok: false, problems: ['Seat is taken'] },
+      ],
+    });
+  });
+});
+
+describe('executeBatch', () => {
+  it('collects per-item results in input order', async () => {
+    const result = await executeBatch(
+      [
+        { row: 1, letter: 'A' },
+        { row: 1, letter: 'B' },
+      ],
+      bookSeat,
+    );
+    expect(result).to.deep.equal({
+      ok: 'partial',
+      items: [
+        {
+          ok: false,
+          validationResults: {
+            letter: { valid: false, problems: ['Seat is taken'], suggestedValues: ['B'] },
+          },
+        },
+        { ok: true, bookingId: '1B' },
+      ],
+    });
+  });
+
+  it('formats exceptions into item problems', async () => {
+    const result = await executeBatch(
+      [
+        { row: 1, letter: 'B' },
+        { row: 2, letter: 'B' },
+      ],
+      async (seat: Seat) => {
+        if (seat.row === 2) {
+          throw 'Row is closed';
+        }
+        return bookSeat(seat);
+      },
+    );
+    expect(result).to.deep.equal({
+      ok: 'partial',
+      items: [
+        { ok: true, bookingId: '1B' },
+        {
+          ok: false,
+          problems: ['Exception occured during tool call execution: "Row is closed"'],
+          retryable: true,
+        },
+      ],
+    });
+  });
+});
+
+describe('batchTool2agent', () => {
+  const tool = batchTool2agent({
+    inputSchema,
+    itemInputSchema: seatSchema,
+    itemOutputSchema: seatBookingSchema,
+    execute: async ({ seats }) => {
+      if (seats.length > 3) {
+        return {
+          ok: false,
+          validationResults: { seats: { valid: false, problems: ['At most 3 seats per booking'] } },
+        };
+      }
+      return executeBatch(seats, bookSeat);
+    },
+  });
+
+  it('returns per-item outcomes', async () => {
+    const result = await tool.execute(
+      {
+        seats: [
+          { row: 1, letter: 'A' },
+          { row: 1, letter: 'C' },
+        ],
+      },
+      options,
+    );
+    expect(result.ok).to.equal('partial');
+    expect(tool.outputSchema.safeParse(result).success).to.be.true;
+  });
+
+  it('rejects the batch as a whole', async () => {
+    const seats = [1, 2, 3, 4].map(row => ({ row, letter: 'B' }));
+    const result = await tool.execute({ seats }, options);
+    expect(result).to.deep.equal({
+      ok: false,
+      validationResults: { seats: { valid: false, problems: ['At most 3 seats per booking'] } },
+    });
+    expect(tool.outputSchema.safeParse(result).success).to.be.true;
+  });
+
+  it('output schema accepts all outcomes', () => {
+    expect(
+      tool.outputSchema.safeParse({ ok: true, items: [{ ok: true, bookingId: '1B' }] }).success,
+    ).to.be.true;
+    expect(
+      tool.outputSchema.safeParse({ ok: 'partial', items: [{ ok: false, problems: ['x'] }] })
+        .success,
+    ).to.be.true;
+    expect(tool.outputSchema.safeParse({ ok: 'partial', items: [{ ok: true }] }).success).to.be
+      .false;
+  });
+});
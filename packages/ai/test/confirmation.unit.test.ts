@@ -0,0 +1,149 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { type ConfirmationParams, tool2agent } from '../src/index.js';
+import type { ToolCallResult } from '@tool2agent/types';
+import { z } from 'zod';
+
+const inputSchema = z.object({ bookingId: z.string(), refund: z.boolean().optional() });
+const outputSchema = z.object({ cancelled: z.boolean() });
+
+const options = { toolCallId: 'test', messages: [] };
+
+type Input = z.infer<typeof inputSchema>;
+type Output = z.infer<typeof outputSchema>;
+
+function cancelBookingTool(confirmation: Partial<ConfirmationParams<Input>> = {}) {
+  const executed: Input[] = [];
+  const tool = tool2agent({
+    inputSchema,
+    outputSchema,
+    confirmation: {
+      summarize: input =>
+        input.refund ? `Cancel booking ${input.bookingId} with a refund` : undefined,
+      ...confirmation,
+    },
+    execute: async input => {
+      executed.push(input);
+      return { ok: true, cancelled: true };
+    },
+  });
+  return { tool, executed };
+}
+
+function getToken(result: ToolCallResult<Input, Output>): string {
+  if (result.ok || !('requiresConfirmation' in result) || !result.requiresConfirmation) {
+    throw new Error('Expected a confirmation request');
+  }
+  return result.requiresConfirmation.token;
+}
+
+describe('tool2agent confirmation', () => {
+  it('requests confirmation instead of executing', async () => {
+    const { tool, executed } = cancelBookingTool();
+
+    const result = await tool.execute({ bookingId: 'B1', refund: true }, options);
+    expect(result).to.deep.include({
+      ok: false,
+      requiresConfirmation: {
+        summary: 'Cancel booking B1 with a refund',
+        token: getToken(result),
+      },
+    });
+    expect(executed).to.deep.equal([]);
+    expect(tool.outputSchema.safeParse(result).success).to.be.true;
+  });
+
+  it('executes calls that do not need confirmation right away', async () => {
+    const { tool, executed } = cancelBookingTool();
+
+    const result = await tool.execute({ bookingId: 'B1' }, options);
+    expect(result).to.deep.equal({ ok: true, cancelled: true });
+    expect(executed).to.deep.equal([{ bookingId: 'B1' }]);
+  });
+
+  it('resumes execution when the same call comes back with the token', async () => {
+    const { tool, executed } = cancelBookingTool();
+    const token = getToken(await tool.execute({ bookingId: 'B1', refund: true }, options));
+
+    const input = { refund: true, bookingId: 'B1', confirmationToken: token };
+    const result = await tool.execute(input, options);
+    expect(result).to.deep.equal({ ok: true, cancelled: true });
+    // The token is not passed to execute()
+    expect(executed).to.deep.equal([{ refund: true, bookingId: 'B1' }]);
+  });
+
+  it('rejects tokens issued for a different call', async () => {
+    const { tool, executed } = cancelBookingTool();
+    const token = getToken(await tool.execute({ bookingId: 'B1', refund: true }, options));
+
+    const input = { bookingId: 'B2', refund: true, confirmationToken: token };
+    const result = await tool.execute(input, options);
+    expect(result.ok).to.be.false;
+    expect(result).to.have.property('problems');
+    expect(executed).to.deep.equal([]);
+  });
+
+  it('keeps tokens valid for their own call when they come with a different call', async () => {
+    const { tool, executed } = cancelBookingTool();
+    const token = getToken(await tool.execute({ bookingId: 'B1', refund: true }, options));
+
+    const otherCall = { bookingId: 'B2', refund: true, confirmationToken: token };
+    expect((await tool.execute(otherCall, options)).ok).to.be.false;
+    const sameCall = { bookingId: 'B1', refund: true, confirmationToken: token };
+    expect((await tool.execute(sameCall, options)).ok).to.be.true;
+    expect(executed).to.deep.equal([{ bookingId: 'B1', refund: true }]);
+  });
+
+  it('rejects expired tokens', async () => {
+    const { tool, executed } = cancelBookingTool({ tokenTtlMs: 1 });
+    const token = getToken(await tool.execute({ bookingId: 'B1', refund: true }, options));
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const input = { bookingId: 'B1', refund: true, confirmationToken: token };
+    expect((await tool.execute(input, options)).ok).to.be.false;
+    expect(executed).to.deep.equal([]);
+  });
+
+  it('forgets the oldest tokens when too many are pending', async () => {
+    const { tool } = cancelBookingTool();
+    const tokens: string[] = [];
+    for (let i = 0; i <= 1000; i++) {
+      tokens.push(getToken(await tool.execute({ bookingId: `B${i}`, refund: true }, options)));
+    }
+
+    const oldest = { bookingId: 'B0', refund: true, confirmationToken: tokens[0] };
+    expect((await tool.execute(oldest, options)).ok).to.be.false;
+    const newest = { bookingId: 'B1000', refund: true, confirmationToken: tokens[1000] };
+    expect((await tool.execute(newest, options)).ok).to.be.true;
+  });
+
+  it('accepts every token only once', async () => {
+    const { tool, executed } = cancelBookingTool();
+    const token = getToken(await tool.execute({ bookingId: 'B1', refund: true }, options));
+    const input = { bookingId: 'B1', refund: true, confirmationToken: token };
+
+    expect((await tool.execute(input, options)).ok).to.be.true;
+    expect((await tool.execute(input, options)).ok).to.be.false;
+    expect(executed).to.have.length(1);
+  });
+
+  it('adds the token field to the input schema', () => {
+    const { tool } = cancelBookingTool();
+
+    expect(tool.inputSchema.safeParse({ bookingId: 'B1', confirmationToken: 'token' }).success).to
+      .be.true;
+    expect(tool.inputSchema.safeParse({ bookingId: 'B1', confirmationToken: 1 }).success).to.be
+      .false;
+  });
+
+  it('requires an object input schema', () => {
+    expect(() =>
+      tool2agent({
+        inputSchema: z.string(),
+        outputSchema,
+        confirmation: { summarize: () => 'Sure?' },
+        execute: async () => ({ ok: true, cancelled: true }),
+      }),
+    ).to.throw('object input schema');
+  });
+});
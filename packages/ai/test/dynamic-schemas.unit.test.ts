@@ -0,0 +1,175 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { serializeDynamicSchemas, tool2agent, batchTool2agent, toolBuilder } from '../src/index.js';
+import type { BatchToolCallResult, ToolCallResult } from '@tool2agent/types';
+import { z } from 'zod';
+
+type Seat = { row: number; letter: string; passenger: { name: string } };
+type SeatBooking = { bookingId: string };
+
+const options = { toolCallId: 'test', messages: [] };
+
+const letterSchema = z.enum(['A', 'B']);
+const letterJsonSchema = z.toJSONSchema(letterSchema, { io: 'input' });
+
+describe('serializeDynamicSchemas', () => {
+  it('converts top-level and nested schemas', () => {
+    const result: ToolCallResult<Seat, SeatBooking> = {
+      ok: false,
+      validationResults: {
+        letter: { valid: false, problems: ['Seat is taken'], dynamicParameterSchema: letterSchema },
+        passenger: {
+          valid: false,
+          validationResults: {
+            name: {
+              valid: false,
+              problems: ['Name is too long'],
+              dynamicParameterSchema: z.string().max(10),
+            },
+          },
+        },
+      },
+    };
+
+    expect(JSON.parse(JSON.stringify(serializeDynamicSchemas(result)))).to.deep.equal({
+      ok: false,
+      validationResults: {
+        letter: {
+          valid: false,
+          problems: ['Seat is taken'],
+          dynamicParameterSchema: letterJsonSchema,
+        },
+        passenger: {
+          valid: false,
+          validationResults: {
+            name: {
+              valid: false,
+              problems: ['Name is too long'],
+              dynamicParameterSchema: z.toJSONSchema(z.string().max(10)),
+            },
+          },
+        },
+      },
+    });
+  });
+
+  it('converts schemas of non-record inputs and batch items', () => {
+    const result: BatchToolCallResult<Seat[], string, SeatBooking> = {
+      ok: 'partial',
+      items: [
+        { ok: true, bookingId: '1' },
+        { ok: false, problems: ['Seat is taken'], dynamicParameterSchema: z.string() },
+      ],
+    };
+
+    expect(serializeDynamicSchemas(result)).to.deep.equal({
+      ok: 'partial',
+      items: [
+        { ok: true, bookingId: '1' },
+        {
+          ok: false,
+          problems: ['Seat is taken'],
+          dynamicParameterSchema: z.toJSONSchema(z.string()),
+        },
+      ],
+    });
+  });
+
+  it('does not touch JSON Schemas and successful results', () => {
+    const failure = { ok: false, problems: ['bad'], dynamicParameterSchema: { type: 'string' } };
+    expect(serializeDynamicSchemas(failure)).to.deep.equal(failure);
+
+    const success = { ok: true, dynamicParameterSchema: letterSchema };
+    expect(serializeDynamicSchemas(success)).to.equal(success);
+  });
+
+  it('does not throw on unrepresentable schemas', () => {
+    const result = serializeDynamicSchemas({
+      ok: false,
+      problems: ['bad'],
+      dynamicParameterSchema: z.date(),
+    });
+    expect(result.dynamicParameterSchema).to.be.an('object').that.is.not.instanceOf(z.ZodType);
+  });
+});
+
+describe('tools serialize dynamic schemas', () => {
+  it('tool2agent()', async () => {
+    const tool = tool2agent({
+      inputSchema: z.object({ letter: z.string() }),
+      outputSchema: z.object({ bookingId: z.string() }),
+      execute: async () => ({
+        ok: false,
+        validationResults: {
+          letter: {
+            valid: false,
+            problems: ['Seat is taken'],
+            dynamicParameterSchema: letterSchema,
+          },
+        },
+      }),
+    });
+
+    const result = await tool.execute({ letter: 'C' }, options);
+    expect(result).to.deep.equal({
+      ok: false,
+      validationResults: {
+        letter: {
+          valid: false,
+          problems: ['Seat is taken'],
+          dynamicParameterSchema: letterJsonSchema,
+        },
+      },
+    });
+    expect(tool.outputSchema.safeParse(result).success).to.be.true;
+  });
+
+  it('batchTool2agent()', async () => {
+    const tool = batchTool2agent({
+      inputSchema: z.object({ letters: z.array(z.string()) }),
+      itemInputSchema: z.string(),
+      itemOutputSchema: z.object({ bookingId: z.string() }),
+      execute: async () => ({
+        ok: 'partial',
+        items: [{ ok: false, problems: ['Seat is taken'], dynamicParameterSchema: letterSchema }],
+      }),
+    });
+
+    const result = await tool.execute({ letters: ['C'] }, options);
+    expect(result).to.deep.equal({
+      ok: 'partial',
+      items: [{ ok: false, problems: ['Seat is taken'], dynamicParameterSchema: letterJsonSchema }],
+    });
+  });
+
+  it('toolBuilder()', async () => {
+    const tool = toolBuilder({
+      inputSchema: z.object({ letter: z.string() }),
+      outputSchema: z.object({ bookingId: z.string() }),
+      dynamicFields: ['letter'] as const,
+      execute: async () => ({ ok: true, bookingId: '1' }),
+    })
+      .field('letter', {
+        requires: [],
+        description: 'Seat letter',
+        validate: async () => ({
+          valid: false,
+          problems: ['Seat is taken'],
+          dynamicParameterSchema: letterSchema,
+        }),
+      })
+      .build();
+
+    const result = await tool.execute({ letter: 'C' }, options);
+    expect(result).to.deep.equal({
+      ok: false,
+      validationResults: {
+        letter: {
+          valid: false,
+          problems: ['Seat is taken'],
+          dynamicParameterSchema: letterJsonSchema,
+        },
+      },
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { tool2agent } from '../src/index.js';
+import { z } from 'zod';
+
+const inputSchema = z.strictObject({
+  city: z.string().trim(),
+  cabin: z.enum(['economy', 'business']),
+});
+const outputSchema = z.object({ price: z.number() });
+
+const options = { toolCallId: 'test', messages: [] };
+
+type Input = z.infer<typeof inputSchema>;
+
+function bookingTool(params: { validateInput?: boolean; confirm?: boolean } = {}) {
+  const executed: Input[] = [];
+  const tool = tool2agent({
+    inputSchema,
+    outputSchema,
+    validateInput: params.validateInput,
+    ...(params.confirm ? { confirmation: { summarize: () => 'Book a flight' } } : {}),
+    execute: async input => {
+      executed.push(input);
+      return { ok: true, price: 100 };
+    },
+  });
+  return { tool, executed };
+}
+
+describe('tool2agent validateInput', () => {
+  it('returns validation issues as a failure', async () => {
+    const { tool, executed } = bookingTool({ validateInput: true });
+
+    const result = await tool.execute(
+      { city: 'Paris', cabin: 'first' } as unknown as Input,
+      options,
+    );
+    expect(result).to.deep.include({ ok: false });
+    expect(result).to.have.deep.nested.property('validationResults.cabin.allowedValues', [
+      'economy',
+      'business',
+    ]);
+    expect(executed).to.deep.equal([]);
+    expect(tool.outputSchema.safeParse(result).success).to.be.true;
+  });
+
+  it('executes with the parsed input', async () => {
+    const { tool, executed } = bookingTool({ validateInput: true });
+
+    const result = await tool.execute({ city: ' Paris ', cabin: 'economy' }, options);
+    expect(result).to.deep.equal({ ok: true, price: 100 });
+    expect(executed).to.deep.equal([{ city: 'Paris', cabin: 'economy' }]);
+  });
+
+  it('does not validate by default', async () => {
+    const { tool, executed } = bookingTool();
+
+    await tool.execute({ city: ' Paris ', cabin: 'economy' }, options);
+    expect(executed).to.deep.equal([{ city: ' Paris ', cabin: 'economy' }]);
+  });
+
+  it('accepts the confirmation token', async () => {
+    const { tool, executed } = bookingTool({ validateInput: true, confirm: true });
+
+    const request = await tool.execute({ city: 'Paris', cabin: 'economy' }, options);
+    const token = (request as { requiresConfirmation: { token: string } }).requiresConfirmation
+      .token;
+    const result = await tool.execute(
+      { city: 'Paris', cabin: 'economy', confirmationToken: token } as Input,
+      options,
+    );
+    expect(result).to.deep.equal({ ok: true, price: 100 });
+    expect(executed).to.deep.equal([{ city: 'Paris', cabin: 'economy' }]);
+  });
+});
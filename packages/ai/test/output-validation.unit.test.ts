@@ -0,0 +1,93 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { tool2agent } from '../src/index.js';
+import type { ToolCallResult } from '@tool2agent/types';
+import { z } from 'zod';
+
+const inputSchema = z.object({ city: z.string(), nights: z.number() });
+const outputSchema = z.object({ price: z.number() });
+
+const options = { toolCallId: 'test', messages: [] };
+
+type Input = z.infer<typeof inputSchema>;
+type Output = z.infer<typeof outputSchema>;
+
+function toolReturning(result: unknown, validateOutput: 'throw' | 'failure') {
+  return tool2agent({
+    inputSchema,
+    outputSchema,
+    validateOutput,
+    // Results that break the protocol are not expressible without a cast
+    execute: async () => result as ToolCallResult<Input, Output>,
+  });
+}
+
+const input = { city: 'Paris', nights: 2 };
+
+describe('tool2agent validateOutput', () => {
+  it('passes valid results through', async () => {
+    const valid = [
+      { ok: true, price: 200 },
+      { ok: false, validationResults: { nights: { valid: false, problems: ['Too many'] } } },
+    ];
+    for (const result of valid) {
+      expect(await toolReturning(result, 'throw').execute(input, options)).to.deep.equal(result);
+    }
+  });
+
+  it('returns a protocol error failure', async () => {
+    // A failure must have at least one of problems and validationResults
+    const result = await toolReturning({ ok: false }, 'failure').execute(input, options);
+    expect(result.ok).to.be.false;
+    expect(result).to.deep.include({ retryable: false });
+    expect(result).to.have.property('problems').with.length(1);
+    expect(result).to.have.nested.property('problems[0].code', 'protocol_error');
+    expect(result)
+      .to.have.nested.property('problems[0].message')
+      .that.contains('does not follow the tool2agent protocol');
+  });
+
+  it('rejects feedback for unknown input fields', async () => {
+    const result = await toolReturning(
+      { ok: false, validationResults: { hotel: { valid: false, problems: ['Closed'] } } },
+      'failure',
+    ).execute(input, options);
+    expect(result).to.have.nested.property('problems[0].code', 'protocol_error');
+  });
+
+  it('throws in throw mode, even when exceptions are caught', async () => {
+    const tool = toolReturning({ ok: true, cost: 200 }, 'throw');
+    let error: unknown;
+    try {
+      await tool.execute(input, options);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.be.instanceOf(Error);
+    expect((error as Error).message).to.contain('does not follow the tool2agent protocol');
+  });
+
+  it('accepts caught exceptions and confirmation requests', async () => {
+    const throwing = tool2agent({
+      inputSchema,
+      outputSchema,
+      validateOutput: 'throw',
+      execute: async () => {
+        throw new Error('Backend is down');
+      },
+    });
+    expect(await throwing.execute(input, options)).to.deep.include({ ok: false, retryable: true });
+
+    const confirming = tool2agent({
+      inputSchema,
+      outputSchema,
+      validateOutput: 'throw',
+      confirmation: { summarize: ({ city }) => `Book ${city}` },
+      execute: async () => ({ ok: true, price: 200 }),
+    });
+    expect(await confirming.execute(input, options)).to.have.nested.property(
+      'requiresConfirmation.summary',
+      'Book Paris',
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { flattenProblems, renderProblem } from '../src/index.js';
+import type { BatchToolCallResult, ToolCallResult } from '@tool2agent/types';
+
+type Seat = { row: number; letter: string; passenger: { name: string } };
+type SeatBooking = { bookingId: string };
+
+describe('renderProblem', () => {
+  it('returns freeform problems as is', () => {
+    expect(renderProblem('Seat is taken')).to.equal('Seat is taken');
+  });
+
+  it('renders structured problems as their message', () => {
+    expect(
+      renderProblem({ code: 'seat_taken', message: 'Seat is taken', params: { seat: '12A' } }),
+    ).to.equal('Seat is taken');
+  });
+});
+
+describe('flattenProblems', () => {
+  it('flattens top-level and nested problems', () => {
+    const result: ToolCallResult<Seat, SeatBooking> = {
+      ok: false,
+      problems: ['Booking is closed', { code: 'rate_limited', message: 'Slow down' }],
+      validationResults: {
+        letter: {
+          valid: false,
+          problems: [{ code: 'seat_taken', message: 'Seat is taken' }],
+          suggestedValues: ['B'],
+        },
+        passenger: {
+          valid: false,
+          validationResults: {
+            name: {
+              valid: false,
+              problems: [{ code: 'name_too_long', message: 'Name is too long' }],
+            },
+          },
+        },
+      },
+    };
+    expect(flattenProblems(result)).to.deep.equal({
+      ok: false,
+      problems: ['Booking is closed', 'Slow down'],
+      validationResults: {
+        letter: { valid: false, problems: ['Seat is taken'], suggestedValues: ['B'] },
+        passenger: {
+          valid: false,
+          validationResults: { name: { valid: false, problems: ['Name is too long'] } },
+        },
+      },
+    });
+  });
+
+  it('flattens per-item results of partial outcomes', () => {
+    const result: BatchToolCallResult<{ seats: Seat[] }, Seat, SeatBooking> = {
+      ok: 'partial',
+      items: [
+        { ok: true, bookingId: '1B' },
+        { ok: false, problems: [{ code: 'seat_taken', message: 'Seat is taken' }] },
+      ],
+    };
+    expect(flattenProblems(result)).to.deep.equal({
+      ok: 'partial',
+      items: [
+        { ok: true, bookingId: '1B' },
+        { ok: false, problems: ['Seat is taken'] },
+      ],
+    });
+  });
+
+  it('leaves successful results unchanged', () => {
+    const result = { ok: true, problems: [{ code: 'not_a_problem', message: 'output field' }] };
+    expect(flattenProblems(result)).to.equal(result);
+  });
+});
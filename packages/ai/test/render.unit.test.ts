@@ -0,0 +1,168 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { renderToolCallResult, resultRenderer, tool2agent } from '../src/index.js';
+import { type BookingInput, mkAirlineBookingTool } from './airline.js';
+import { z } from 'zod';
+
+const options = { toolCallId: 'test', messages: [] };
+
+// Rough BPE token count: words and punctuation marks
+function estimateTokens(text: string): number {
+  return text.match(/\w+|[^\s\w]/g)?.length ?? 0;
+}
+
+const flights = [
+  { departure: 'london', arrival: 'New York', date: '2026-10-01', seats: 100 },
+  { departure: 'london', arrival: 'NEW_YORK', date: '2026-10-02', seats: 2 },
+  { departure: 'Berlin', arrival: 'New York', date: '2026-10-03', seats: 2 },
+  { departure: 'Berlin', arrival: 'London', date: '2026-10-04', seats: 2 },
+];
+
+async function airlineFeedback(input: BookingInput) {
+  const tool = mkAirlineBookingTool(flights, async booking => booking);
+  return await tool.execute(input, options);
+}
+
+describe('renderToolCallResult', () => {
+  const result = {
+    ok: false,
+    problems: ['No seats left, try another date'],
+    validationResults: {
+      date: { valid: false, allowedValues: ['2026-10-02', '2026-10-03'], feedback: [] },
+      'seat class': { valid: true },
+    },
+    instructions: [],
+  };
+
+  it('renders Markdown', () => {
+    expect(renderToolCallResult(result, 'markdown')).to.equal(
+      [
+        '- ok: false',
+        '- problems: ["No seats left, try another date"]',
+        '- validationResults:',
+        '  - date:',
+        '    - valid: false',
+        '    - allowedValues: [2026-10-02, 2026-10-03]',
+        '    - feedback: []',
+        '  - seat class:',
+        '    - valid: true',
+        '- instructions: []',
+      ].join('\n'),
+    );
+  });
+
+  it('renders XML-tagged text', () => {
+    expect(renderToolCallResult(result, 'xml')).to.equal(
+      [
+        '<tool_result ok="false" problems="[&quot;No seats left, try another date&quot;]" instructions="[]">',
+        '<validationResults>',
+        '<date valid="false" allowedValues="[2026-10-02, 2026-10-03]" feedback="[]"/>',
+        '<entry key="seat class" valid="true"/>',
+        '</validationResults>',
+        '</tool_result>',
+      ].join('\n'),
+    );
+  });
+
+  it('renders arrays of objects and escapes XML', () => {
+    const partial = {
+      ok: 'partial',
+      items: [{ ok: true }, { ok: false, problems: [{ code: 'taken', message: 'Seat <12A>' }] }],
+    };
+    expect(renderToolCallResult(partial, 'markdown')).to.equal(
+      [
+        '- ok: partial',
+        '- items:',
+        '  - 1.',
+        '    - ok: true',
+        '  - 2.',
+        '    - ok: false',
+        '    - problems:',
+        '      - 1.',
+        '        - code: taken',
+        '        - message: Seat <12A>',
+      ].join('\n'),
+    );
+    expect(renderToolCallResult(partial, 'xml')).to.equal(
+      [
+        '<tool_result ok="partial">',
+        '<items>',
+        '<item ok="true"/>',
+        '<item ok="false">',
+        '<problems>',
+        '<item code="taken" message="Seat &lt;12A&gt;"/>',
+        '</problems>',
+        '</item>',
+        '</items>',
+        '</tool_result>',
+      ].join('\n'),
+    );
+  });
+
+  it('keeps empty structures, which may carry meaning', () => {
+    const noOptions = {
+      ok: false,
+      validationResults: { seat: { valid: false, allowedValues: [] } },
+    };
+    expect(renderToolCallResult(noOptions, 'markdown')).to.include('- allowedValues: []');
+    expect(renderToolCallResult(noOptions, 'xml')).to.include(
+      '<seat valid="false" allowedValues="[]"/>',
+    );
+    expect(renderToolCallResult({ ok: true, value: [], extra: {} }, 'markdown')).to.equal(
+      '- ok: true\n- value: []\n- extra: {}',
+    );
+  });
+
+  it('tells strings apart from lists and other values', () => {
+    const render = (value: unknown, format: 'markdown' | 'xml') =>
+      renderToolCallResult({ value }, format);
+    const values = ['a, b', ['a, b'], ['a', 'b'], ['a'], 'a', 'true', true, '42', 42, '[]', []];
+    for (const format of ['markdown', 'xml'] as const) {
+      const rendered = values.map(value => render(value, format));
+      expect(new Set(rendered).size).to.equal(values.length);
+    }
+    expect(render('a, b', 'markdown')).to.equal('- value: "a, b"');
+    expect(render(['a', 'b'], 'markdown')).to.equal('- value: [a, b]');
+    expect(render(['a, b'], 'xml')).to.equal('<tool_result value="[&quot;a, b&quot;]"/>');
+  });
+});
+
+describe('resultRenderer', () => {
+  it('is accepted as toModelOutput', async () => {
+    const tool = tool2agent({
+      inputSchema: z.object({ city: z.string() }),
+      outputSchema: z.object({ forecast: z.string() }),
+      toModelOutput: resultRenderer('markdown'),
+      execute: async () => ({ ok: true, forecast: 'sunny' }),
+    });
+
+    const result = await tool.execute({ city: 'Paris' }, options);
+    expect(tool.toModelOutput?.(result)).to.deep.equal({
+      type: 'text',
+      value: '- ok: true\n- forecast: sunny',
+    });
+  });
+});
+
+describe('token savings on the airline example', () => {
+  const inputs: BookingInput[] = [
+    {},
+    { departure: 'london', passengers: 3 },
+    { departure: 'Berlin', arrival: 'New York' },
+  ];
+
+  for (const input of inputs) {
+    it(`saves tokens for ${JSON.stringify(input)}`, async () => {
+      const feedback = await airlineFeedback(input);
+      expect(feedback.ok).to.be.false;
+      // AI SDK sends results as JSON by default
+      const json = estimateTokens(JSON.stringify(feedback));
+      const markdown = estimateTokens(renderToolCallResult(feedback, 'markdown'));
+      const xml = estimateTokens(renderToolCallResult(feedback, 'xml'));
+
+      // Markdown drops quotes and braces: at least a third shorter
+      expect(markdown).to.be.below(json * 0.67);
+      expect(xml).to.be.below(json * 0.85);
+    });
+  }
+});
@@ -0,0 +1,176 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { tool2agent, asyncTool2agent, batchTool2agent, streamingTool2agent } from '../src/index.js';
+import type { StandardSchemaV1 } from '@tool2agent/schemas';
+
+type Booking = { city: string; nights: number };
+
+const options = { toolCallId: 'test', messages: [] };
+
+// A schema of a library that is not Zod: trims the city and checks the number of nights
+const bookingJsonSchema = {
+  type: 'object',
+  properties: { city: { type: 'string' }, nights: { type: 'integer' } },
+  required: ['city', 'nights'],
+};
+
+// Like Valibot, the library can not produce a JSON Schema by itself
+const valibotLikeSchema: StandardSchemaV1<Booking> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: value => {
+      const { city, nights } = value as Booking;
+      return nights >= 1
+        ? { value: { city: city.trim(), nights } }
+        : { issues: [{ message: 'Expected at least one night', path: [{ key: 'nights' }] }] };
+    },
+  },
+};
+
+const inputSchema: StandardSchemaV1<Booking> & { toJsonSchema: () => object } = {
+  ...valibotLikeSchema,
+  toJsonSchema: () => bookingJsonSchema,
+};
+
+const outputSchema: StandardSchemaV1<{ price: number }> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: value => ({ value: value as { price: number } }),
+    jsonSchema: {
+      output: () => ({ type: 'object', properties: { price: { type: 'number' } } }),
+    },
+  } as StandardSchemaV1.Props<{ price: number }>,
+};
+
+function bookingTool() {
+  const executed: Booking[] = [];
+  const tool = tool2agent({
+    inputSchema,
+    outputSchema,
+    execute: async input => {
+      executed.push(input);
+      return { ok: true, price: input.nights * 100 };
+    },
+  });
+  return { tool, executed };
+}
+
+describe('tool2agent with Standard Schema', () => {
+  it('executes with the validated value', async () => {
+    const { tool, executed } = bookingTool();
+
+    const result = await tool.execute({ city: ' Paris ', nights: 2 }, options);
+    expect(result).to.deep.equal({ ok: true, price: 200 });
+    expect(executed).to.deep.equal([{ city: 'Paris', nights: 2 }]);
+    expect(tool.outputSchema.safeParse(result).success).to.be.true;
+  });
+
+  it('returns validation issues as a failure', async () => {
+    const { tool, executed } = bookingTool();
+
+    const result = await tool.execute({ city: 'Paris', nights: 0 }, options);
+    expect(result).to.deep.equal({
+      ok: false,
+      validationResults: { nights: { valid: false, problems: ['Expected at least one night'] } },
+    });
+    expect(executed).to.deep.equal([]);
+    expect(tool.outputSchema.safeParse(result).success).to.be.true;
+  });
+
+  it('exposes the input schema converted to Zod', () => {
+    const { tool } = bookingTool();
+    expect(tool.inputSchema.safeParse({ city: 'Paris', nights: 2 }).success).to.be.true;
+    expect(tool.inputSchema.safeParse({ city: 'Paris' }).success).to.be.false;
+  });
+});
+
+describe('Standard Schemas without a JSON Schema converter', () => {
+  it('are converted with the given JSON Schema and validated with the original schema', async () => {
+    const tool = tool2agent({
+      inputSchema: valibotLikeSchema,
+      outputSchema,
+      jsonSchema: { inputSchema: bookingJsonSchema },
+      execute: async input => ({ ok: true, price: input.nights * 100 }),
+    });
+
+    expect(tool.inputSchema.safeParse({ city: 'Paris' }).success).to.be.false;
+    expect(await tool.execute({ city: 'Paris', nights: 0 }, options)).to.deep.equal({
+      ok: false,
+      validationResults: { nights: { valid: false, problems: ['Expected at least one night'] } },
+    });
+  });
+
+  it('throws without the JSON Schema', () => {
+    expect(() =>
+      tool2agent({
+        inputSchema: valibotLikeSchema,
+        outputSchema,
+        execute: async input => ({ ok: true, price: input.nights * 100 }),
+      }),
+    ).to.throw('Can not get a JSON Schema of a test schema');
+  });
+});
+
+describe('tool2agent variants with Standard Schema', () => {
+  const invalidBooking = { city: 'Paris', nights: 0 };
+  const nightsFailure = {
+    ok: false,
+    validationResults: { nights: { valid: false, problems: ['Expected at least one night'] } },
+  };
+
+  it('asyncTool2agent', async () => {
+    const tool = asyncTool2agent({
+      inputSchema: valibotLikeSchema,
+      outputSchema,
+      jsonSchema: { inputSchema: bookingJsonSchema },
+      execute: async () => ({ ok: 'pending', jobId: 'job-1' }),
+    });
+
+    expect(await tool.execute({ city: 'Paris', nights: 2 }, options)).to.deep.equal({
+      ok: 'pending',
+      jobId: 'job-1',
+    });
+    expect(await tool.execute(invalidBooking, options)).to.deep.equal(nightsFailure);
+  });
+
+  it('batchTool2agent', async () => {
+    const tool = batchTool2agent({
+      inputSchema: valibotLikeSchema,
+      itemInputSchema: valibotLikeSchema,
+      itemOutputSchema: outputSchema,
+      jsonSchema: { inputSchema: bookingJsonSchema, itemInputSchema: bookingJsonSchema },
+      execute: async input => ({ ok: true, items: [{ ok: true, price: input.nights * 100 }] }),
+    });
+
+    expect(await tool.execute(invalidBooking, options)).to.deep.equal(nightsFailure);
+    expect(tool.outputSchema.safeParse({ ok: 'partial', items: [{ ok: true, price: 1 }] }).success)
+      .to.be.true;
+  });
+
+  it('streamingTool2agent', async () => {
+    const tool = streamingTool2agent({
+      inputSchema: valibotLikeSchema,
+      outputSchema,
+      progressSchema: outputSchema,
+      jsonSchema: { inputSchema: bookingJsonSchema },
+      execute: async function* (input) {
+        yield { price: 100 };
+        return { ok: true, price: input.nights * 100 };
+      },
+    });
+
+    const items = [];
+    for await (const item of tool.execute({ city: ' Paris ', nights: 2 }, options)) {
+      items.push(item);
+    }
+    expect(items).to.deep.equal([
+      { ok: 'progress', update: { price: 100 } },
+      { ok: true, price: 200 },
+    ]);
+    const failures = [];
+    for await (const item of tool.execute(invalidBooking, options)) failures.push(item);
+    expect(failures).to.deep.equal([nightsFailure]);
+  });
+});
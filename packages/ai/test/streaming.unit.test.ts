@@ -0,0 +1,210 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { executeTool, type ToolCallOptions } from '@ai-sdk/provider-utils';
+import {
+  streamingTool2agent,
+  createMiddleware,
+  applyMiddlewareToStreaming,
+  Tool2AgentError,
+} from '../src/index.js';
+import type { StreamingToolCallResult, ToolCallResult } from '@tool2agent/types';
+import { z } from 'zod';
+
+const inputSchema = z.object({ route: z.string() });
+const outputSchema = z.object({ cheapest: z.number() });
+const progressSchema = z.object({ checked: z.number(), total: z.number() });
+
+type Input = z.infer<typeof inputSchema>;
+type Output = z.infer<typeof outputSchema>;
+type Progress = z.infer<typeof progressSchema>;
+
+const options = { toolCallId: 'test', messages: [] };
+
+const prices = [300, 200, 250];
+
+function searchTool() {
+  return streamingTool2agent({
+    inputSchema,
+    outputSchema,
+    progressSchema,
+    execute: async function* ({ route }) {
+      if (route === 'nowhere') {
+        throw new Tool2AgentError<Input>('Unknown route');
+      }
+      for (let checked = 1; checked <= prices.length; checked++) {
+        yield { checked, total: prices.length };
+      }
+      return { ok: true, cheapest: Math.min(...prices) };
+    },
+  });
+}
+
+// A search that never ends by itself, and records when it is stopped
+function endlessSearchTool() {
+  const state = { stopped: false };
+  const tool = streamingTool2agent({
+    inputSchema,
+    outputSchema,
+    progressSchema,
+    execute: async function* () {
+      try {
+        for (let checked = 1; ; checked++) {
+          yield { checked, total: Infinity };
+        }
+      } finally {
+        state.stopped = true;
+      }
+    },
+  });
+  return { tool, state };
+}
+
+async function collect<T>(stream: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of stream) items.push(item);
+  return items;
+}
+
+const progress = (checked: number) => ({
+  ok: 'progress' as const,
+  update: { checked, total: prices.length },
+});
+
+describe('streamingTool2agent', () => {
+  it('streams progress updates followed by the final result', async () => {
+    const tool = searchTool();
+
+    const items = await collect(tool.execute({ route: 'PAR-BER' }, options));
+    expect(items).to.deep.equal([
+      progress(1),
+      progress(2),
+      progress(3),
+      { ok: true, cheapest: 200 },
+    ]);
+    for (const item of items) {
+      expect(tool.outputSchema.safeParse(item).success).to.be.true;
+    }
+    expect(tool.outputSchema.safeParse({ ok: 'progress', update: { checked: 'one' } }).success).to
+      .be.false;
+  });
+
+  it('ends the stream with a failure on exceptions', async () => {
+    const items = await collect(searchTool().execute({ route: 'nowhere' }, options));
+    expect(items).to.deep.equal([{ ok: false, problems: ['Unknown route'] }]);
+  });
+
+  it('stops the generator when the consumer stops early', async () => {
+    const { tool, state } = endlessSearchTool();
+
+    for await (const item of tool.execute({ route: 'PAR-BER' }, options)) {
+      expect(item.ok).to.equal('progress');
+      break;
+    }
+    expect(state.stopped).to.be.true;
+  });
+
+  it('yields preliminary and final results in AI SDK', async () => {
+    const tool = searchTool();
+
+    const parts = await collect(
+      executeTool({ execute: tool.execute, input: { route: 'PAR-BER' }, options }),
+    );
+    expect(parts.map(part => part.type)).to.deep.equal([
+      'preliminary',
+      'preliminary',
+      'preliminary',
+      'preliminary',
+      'final',
+    ]);
+    expect(parts[parts.length - 1].output).to.deep.equal({ ok: true, cheapest: 200 });
+  });
+});
+
+describe('createMiddleware over streaming tools', () => {
+  // Adds a fee to the final price
+  const feeMiddleware = createMiddleware<Input, Output>({
+    transform: tool => ({
+      ...tool,
+      execute: async (input: Input, options: ToolCallOptions) => {
+        const result = await tool.execute(input, options);
+        return result.ok ? { ...result, cheapest: result.cheapest + 10 } : result;
+      },
+    }),
+  });
+
+  // Refuses some routes without calling the tool
+  const blockMiddleware = createMiddleware<Input, Output>({
+    transform: tool => ({
+      ...tool,
+      execute: async (input: Input, options: ToolCallOptions) =>
+        input.route === 'PAR-MOW'
+          ? ({ ok: false, problems: ['Route is blocked'] } as ToolCallResult<Input, Output>)
+          : tool.execute(input, options),
+    }),
+  });
+
+  it('transforms the final result and passes progress through', async () => {
+    const tool = applyMiddlewareToStreaming(feeMiddleware, searchTool());
+
+    const items: StreamingToolCallResult<Input, Output, Progress>[] = await collect(
+      tool.execute({ route: 'PAR-BER' }, options),
+    );
+    expect(items).to.deep.equal([
+      progress(1),
+      progress(2),
+      progress(3),
+      { ok: true, cheapest: 210 },
+    ]);
+    expect(tool.progressSchema).to.equal(progressSchema);
+  });
+
+  it('composes piped middlewares', async () => {
+    const tool = applyMiddlewareToStreaming(
+      blockMiddleware.pipe(feeMiddleware).pipe(feeMiddleware),
+      searchTool(),
+    );
+
+    expect(await collect(tool.execute({ route: 'PAR-BER' }, options))).to.deep.equal([
+      progress(1),
+      progress(2),
+      progress(3),
+      { ok: true, cheapest: 220 },
+    ]);
+    expect(await collect(tool.execute({ route: 'PAR-MOW' }, options))).to.deep.equal([
+      { ok: false, problems: ['Route is blocked'] },
+    ]);
+  });
+
+  it('keeps progress of concurrent calls apart', async () => {
+    const tool = applyMiddlewareToStreaming(feeMiddleware, searchTool());
+
+    const [first, second] = await Promise.all([
+      collect(tool.execute({ route: 'PAR-BER' }, options)),
+      collect(tool.execute({ route: 'nowhere' }, options)),
+    ]);
+    expect(first).to.have.length(4);
+    expect(second).to.deep.equal([{ ok: false, problems: ['Unknown route'] }]);
+  });
+
+  it('prefers applyToStreaming of the middleware', async () => {
+    const tool = applyMiddlewareToStreaming(
+      { ...feeMiddleware, applyToStreaming: tool => tool },
+      searchTool(),
+    );
+
+    const items = await collect(tool.execute({ route: 'PAR-BER' }, options));
+    expect(items[items.length - 1]).to.deep.equal({ ok: true, cheapest: 200 });
+  });
+
+  it('stops the original stream when the consumer stops early', async () => {
+    const { tool: endlessTool, state } = endlessSearchTool();
+    const tool = applyMiddlewareToStreaming(feeMiddleware.pipe(feeMiddleware), endlessTool);
+
+    for await (const item of tool.execute({ route: 'PAR-BER' }, options)) {
+      expect(item.ok).to.equal('progress');
+      break;
+    }
+    // The original stream is stopped once it yields its next item
+    while (!state.stopped) await new Promise(resolve => setImmediate(resolve));
+  });
+});
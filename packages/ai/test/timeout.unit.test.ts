@@ -0,0 +1,89 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { tool2agent } from '../src/index.js';
+import { z } from 'zod';
+
+const inputSchema = z.object({ city: z.string() });
+const outputSchema = z.object({ forecast: z.string() });
+
+const input = { city: 'Paris' };
+
+// Resolves after ms, or rejects as soon as the signal fires
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+}
+
+function forecastTool(delayMs: number, timeoutMs?: number) {
+  const signals: (AbortSignal | undefined)[] = [];
+  const tool = tool2agent({
+    inputSchema,
+    outputSchema,
+    timeoutMs,
+    execute: async (_input, { abortSignal }) => {
+      signals.push(abortSignal);
+      await sleep(delayMs, abortSignal);
+      return { ok: true, forecast: 'sunny' };
+    },
+  });
+  return { tool, signals };
+}
+
+describe('tool2agent timeoutMs', () => {
+  it('returns a retryable failure when execute is too slow', async () => {
+    const { tool, signals } = forecastTool(1000, 20);
+
+    const result = await tool.execute(input, { toolCallId: 'test', messages: [] });
+    expect(result).to.deep.equal({
+      ok: false,
+      problems: ['Tool call timed out after 20 ms'],
+      retryable: true,
+    });
+    expect(signals[0]?.aborted).to.be.true;
+    expect(tool.outputSchema.safeParse(result).success).to.be.true;
+  });
+
+  it('returns results of calls that finish in time', async () => {
+    const { tool, signals } = forecastTool(0, 1000);
+
+    const result = await tool.execute(input, { toolCallId: 'test', messages: [] });
+    expect(result).to.deep.equal({ ok: true, forecast: 'sunny' });
+    expect(signals[0]?.aborted).to.be.false;
+  });
+
+  it('passes the abort of the caller to execute', async () => {
+    const { tool, signals } = forecastTool(1000);
+    const controller = new AbortController();
+
+    const pending = tool.execute(input, {
+      toolCallId: 'test',
+      messages: [],
+      abortSignal: controller.signal,
+    });
+    controller.abort();
+    const result = await pending;
+    expect(result).to.deep.equal({
+      ok: false,
+      problems: ['Tool call was aborted'],
+      retryable: true,
+    });
+    expect(signals[0]?.aborted).to.be.true;
+  });
+
+  it('does not execute calls that are already aborted', async () => {
+    const { tool, signals } = forecastTool(0);
+
+    const result = await tool.execute(input, {
+      toolCallId: 'test',
+      messages: [],
+      abortSignal: AbortSignal.abort(),
+    });
+    expect(result).to.deep.include({ ok: false, problems: ['Tool call was aborted'] });
+    expect(signals).to.deep.equal([]);
+  });
+});
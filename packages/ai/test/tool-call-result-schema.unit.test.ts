@@ -0,0 +1,75 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { tool2agent } from '../src/index.js';
+import type { ToolCallFailure } from '@tool2agent/types';
+import { z } from 'zod';
+
+const options = { toolCallId: 'test', messages: [] };
+
+const passengerSchema = z.object({ name: z.string(), age: z.number() });
+
+describe('tool output schema', () => {
+  it('accepts per-item feedback for array inputs', async () => {
+    const tool = tool2agent({
+      inputSchema: z.array(passengerSchema),
+      outputSchema: z.object({ bookingId: z.string() }),
+      execute: async passengers => ({
+        ok: false,
+        validationResults: {
+          [passengers.length - 1]: {
+            valid: false,
+            validationResults: { age: { valid: false, problems: ['Must be an adult'] } },
+          },
+        },
+      }),
+    });
+
+    const result = await tool.execute(
+      [
+        { name: 'John', age: 30 },
+        { name: 'Tim', age: 9 },
+      ],
+      options,
+    );
+    expect(result).to.deep.equal({
+      ok: false,
+      validationResults: {
+        1: {
+          valid: false,
+          validationResults: { age: { valid: false, problems: ['Must be an adult'] } },
+        },
+      },
+    });
+    expect(tool.outputSchema.safeParse(result).success).to.be.true;
+  });
+
+  it('rejects per-item feedback not keyed by index', () => {
+    const tool = tool2agent({
+      inputSchema: z.array(passengerSchema),
+      outputSchema: z.object({ bookingId: z.string() }),
+      execute: async () => ({ ok: true, bookingId: '1' }),
+    });
+
+    const result = { ok: false, validationResults: { first: { valid: false, problems: ['bad'] } } };
+    expect(tool.outputSchema.safeParse(result).success).to.be.false;
+  });
+
+  it('accepts per-member feedback for discriminated union inputs', async () => {
+    const travelSchema = z.discriminatedUnion('kind', [
+      z.object({ kind: z.literal('flight'), from: z.string(), to: z.string() }),
+      z.object({ kind: z.literal('hotel'), city: z.string() }),
+    ]);
+    const failure: ToolCallFailure<z.infer<typeof travelSchema>> = {
+      ok: false,
+      validationResults: { to: { valid: false, requiresValidParameters: ['from'] } },
+    };
+    const tool = tool2agent({
+      inputSchema: travelSchema,
+      outputSchema: z.object({ bookingId: z.string() }),
+      execute: async () => failure,
+    });
+
+    const result = await tool.execute({ kind: 'flight', from: '', to: 'CDG' }, options);
+    expect(tool.outputSchema.parse(result)).to.deep.equal(failure);
+  });
+});
@@ -1,6 +1,7 @@
 import { expect } from 'chai';
 import { describe, it } from 'mocha';
-import { type Tool2Agent, tool2agent } from '../src/tool2agent.js';
+import { type Tool2Agent, tool2agent, errorToToolCallFailure } from '../src/tool2agent.js';
+import { Tool2AgentError } from '../src/errors.js';
 import { z } from 'zod';
 
 const inputSchema = z.object({ value: z.string() });
@@ -11,7 +12,7 @@ type OutputType = z.infer<typeof outputSchema>;
 
 describe('tool2agent error handling', () => {
   describe('catchExceptions = true (default)', () => {
-    it('handles Error with stack trace', async () => {
+    it('redacts the stack trace', async () => {
       const error = new Error('Test error');
       error.stack = 'Error: Test error\n    at test.js:1:1';
 
@@ -25,6 +26,29 @@ describe('tool2agent error handling', () => {
 
       const result = await tool.execute({ value: 'test' }, { toolCallId: 'test', messages: [] });
 
+      expect(result.ok).to.be.false;
+      if (!result.ok) {
+        expect(result.problems).to.deep.equal([
+          'Exception occured during tool call execution: Error: Test error',
+        ]);
+      }
+    });
+
+    it('handles Error with stack trace when formatException includes it', async () => {
+      const error = new Error('Test error');
+      error.stack = 'Error: Test error\n    at test.js:1:1';
+
+      const tool: Tool2Agent<InputType, OutputType> = tool2agent({
+        inputSchema,
+        outputSchema,
+        formatException: e => errorToToolCallFailure(e, { includeStack: true }),
+        execute: async () => {
+          throw error;
+        },
+      });
+
+      const result = await tool.execute({ value: 'test' }, { toolCallId: 'test', messages: [] });
+
       expect(result.ok).to.be.false;
       if (!result.ok) {
         expect(result.problems).to.deep.equal([
@@ -33,6 +57,21 @@ describe('tool2agent error handling', () => {
       }
     });
 
+    it('marks caught exceptions as retryable', async () => {
+      const tool: Tool2Agent<InputType, OutputType> = tool2agent({
+        inputSchema,
+        outputSchema,
+        execute: async () => {
+          throw new Error('Connection reset');
+        },
+      });
+
+      const result = await tool.execute({ value: 'test' }, { toolCallId: 'test', messages: [] });
+
+      expect(result.ok).to.be.false;
+      expect(result).to.have.property('retryable', true);
+    });
+
     it('handles Error with name and message (no stack)', async () => {
       const error = new Error('Test error');
       error.stack = undefined;
@@ -214,6 +253,67 @@ describe('tool2agent error handling', () => {
     });
   });
 
+  describe('Tool2AgentError', () => {
+    it('becomes the failure it describes', async () => {
+      const tool = tool2agent({
+        inputSchema,
+        outputSchema,
+        execute: async () => {
+          throw new Tool2AgentError<InputType>('Unknown value', {
+            validationResults: {
+              value: { valid: false, problems: ['Unknown value'], suggestedValues: ['known'] },
+            },
+            instructions: [{ kind: 'ask_user', question: 'Which value?' }],
+            retryable: false,
+          });
+        },
+      });
+
+      const result = await tool.execute({ value: 'test' }, { toolCallId: 'test', messages: [] });
+
+      expect(result).to.deep.equal({
+        ok: false,
+        problems: ['Unknown value'],
+        validationResults: {
+          value: { valid: false, problems: ['Unknown value'], suggestedValues: ['known'] },
+        },
+        instructions: [{ kind: 'ask_user', question: 'Which value?' }],
+        retryable: false,
+      });
+      expect(tool.outputSchema.safeParse(result).success).to.be.true;
+    });
+
+    it('uses the message as the problem', async () => {
+      const tool = tool2agent({
+        inputSchema,
+        outputSchema,
+        execute: async () => {
+          throw new Tool2AgentError('Service is closed for today');
+        },
+      });
+
+      const result = await tool.execute({ value: 'test' }, { toolCallId: 'test', messages: [] });
+
+      expect(result).to.deep.equal({ ok: false, problems: ['Service is closed for today'] });
+    });
+
+    it('lets formatException take over', async () => {
+      const tool = tool2agent({
+        inputSchema,
+        outputSchema,
+        formatException: () => ({ ok: false, problems: ['Something went wrong'] }),
+        execute: async () => {
+          throw new Error('Secret connection string');
+        },
+      });
+
+      const result = await tool.execute({ value: 'test' }, { toolCallId: 'test', messages: [] });
+
+      expect(result).to.deep.equal({ ok: false, problems: ['Something went wrong'] });
+      expect(tool).to.not.have.property('formatException');
+    });
+  });
+
   describe('catchExceptions = false', () => {
     it('propagates exceptions when catchExceptions is false', async () => {
       const error = new Error('Test error');
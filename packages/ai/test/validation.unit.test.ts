@@ -1,6 +1,12 @@
 import { expect } from 'chai';
 import { describe, it } from 'mocha';
-import { type ToolSpec, type ToolCallRejected, type ToolFieldConfig } from '../src/index.js';
+import {
+  type ToolSpec,
+  type ToolCallRejected,
+  type ToolFieldConfig,
+  toolBuilder,
+} from '../src/index.js';
+import { z } from 'zod';
 import { getToolBuilderSpec } from '../src/builder/builder.js';
 import { validateToolInput } from '../src/builder/validation.js';
 import { toposortFields } from '../src/builder/graph.js';
@@ -149,6 +155,7 @@ describe('validation.unit.test.ts', () => {
     const expected = {
       status: 'accepted' as const,
       value: { name: 'John' }, // Should use normalized value
+      normalization: { normalizedInput: { name: 'John' } }, // Reported to the agent
     };
     expect(res).to.deep.equal(expected);
   });
@@ -207,6 +214,7 @@ describe('validation.unit.test.ts', () => {
     const expected = {
       status: 'accepted' as const,
       value: { name: 'LOWERCASE' }, // Should use normalized value
+      normalization: { normalizedInput: { name: 'LOWERCASE' } }, // Reported to the agent
     };
     expect(res).to.deep.equal(expected);
   });
@@ -334,4 +342,108 @@ describe('validation.unit.test.ts', () => {
     };
     expect(res).to.deep.equal(expected);
   });
+
+  it('#12 annotated suggestions: ranked by score, unscored suggestions last', async () => {
+    type CityInput = {
+      city: string;
+    };
+    const citySpec: ToolSpec<Pick<CityInput, 'city'>> = {
+      city: {
+        requires: [],
+        validate: async () => ({
+          valid: false,
+          problems: ['Unknown city'],
+          annotatedSuggestions: [
+            { value: 'BVA', label: 'Paris Beauvais' },
+            { value: 'ORY', label: 'Paris Orly', score: 1 },
+            { value: 'LBG', label: 'Paris Le Bourget' },
+            { value: 'CDG', label: 'Paris', description: '3 flights left', score: 3 },
+          ],
+        }),
+      },
+    };
+
+    const res = await validateToolInput(citySpec, { city: 'Pari' });
+
+    const expected = {
+      status: 'rejected' as const,
+      validationResults: {
+        city: {
+          valid: false,
+          problems: ['Unknown city'],
+          annotatedSuggestions: [
+            { value: 'CDG', label: 'Paris', description: '3 flights left', score: 3 },
+            { value: 'ORY', label: 'Paris Orly', score: 1 },
+            { value: 'BVA', label: 'Paris Beauvais' },
+            { value: 'LBG', label: 'Paris Le Bourget' },
+          ],
+        },
+      },
+    };
+    expect(res).to.deep.equal(expected);
+  });
+
+  it('#13 normalization: accepted fields report normalized values and feedback', async () => {
+    type TripInput = {
+      city: string;
+      passengers: number;
+    };
+    const tripSpec: ToolSpec<Pick<TripInput, 'city' | 'passengers'>> = {
+      city: {
+        requires: [],
+        validate: async () => ({
+          valid: true,
+          normalizedValue: 'New York',
+          feedback: ['"nyc" was interpreted as New York'],
+        }),
+      },
+      passengers: {
+        requires: [],
+        validate: async () => ({ valid: true }),
+      },
+    };
+
+    const res = await validateToolInput(tripSpec, { city: 'nyc', passengers: 2 });
+
+    const expected = {
+      status: 'accepted' as const,
+      value: { city: 'New York', passengers: 2 },
+      normalization: {
+        normalizedInput: { city: 'New York' },
+        inputNotes: { city: ['"nyc" was interpreted as New York'] },
+      },
+    };
+    expect(res).to.deep.equal(expected);
+  });
+});
+
+describe('toolBuilder normalization', () => {
+  it('successes report normalized fields', async () => {
+    const tool = toolBuilder({
+      inputSchema: z.object({ city: z.string(), passengers: z.number() }),
+      outputSchema: z.object({ tripId: z.string() }),
+      dynamicFields: ['city'] as const,
+      execute: async () => ({ ok: true, tripId: 't-1' }),
+    })
+      .field('city', {
+        requires: [],
+        description: 'City of departure',
+        validate: async (value: string | undefined) =>
+          value === 'nyc'
+            ? { valid: true, normalizedValue: 'New York', feedback: ['"nyc" is New York'] }
+            : { valid: false, problems: ['Unknown city'] },
+      })
+      .build();
+
+    const result = await tool.execute(
+      { city: 'nyc', passengers: 2 },
+      { toolCallId: 'test', messages: [] },
+    );
+    expect(result).to.deep.equal({
+      ok: true,
+      tripId: 't-1',
+      normalizedInput: { city: 'New York' },
+      inputNotes: { city: ['"nyc" is New York'] },
+    });
+  });
 });
@@ -1,5 +1,5 @@
 import { createMiddleware, type Middleware, type Tool2Agent } from '@tool2agent/ai';
-import type { ToolCallResult, NonEmptyArray } from '@tool2agent/types';
+import type { ToolCallResult, ToolCallFailure, NonEmptyArray } from '@tool2agent/types';
 import type { ToolCallOptions } from '@ai-sdk/provider-utils';
 import hash from 'object-hash';
 
@@ -129,11 +129,12 @@ export function idempotency<InputType, OutputType>(
             if (onDuplicate) {
               await onDuplicate(input);
             }
-            return {
+            const failure: ToolCallFailure<InputType> = {
               ok: false,
               problems: formatProblems(input),
               instructions: formatInstructions(input),
             };
+            return failure;
           }
 
           await set.add(input);
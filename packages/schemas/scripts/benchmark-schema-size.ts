@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { mkTool2AgentSchema } from '../src/index.js';
+
+// Measures how the size of the emitted JSON Schema and the build time grow
+// with the number of input fields, in default and compact mode.
+// Usage: pnpm bench [fieldCount...]
+
+const fieldCounts = process.argv.slice(2).map(Number);
+
+function mkInputSchema(fieldCount: number) {
+  return z.object(
+    Object.fromEntries(
+      Array.from({ length: fieldCount }, (_, i) => [
+        `field${i}`,
+        z.string().describe(`Field ${i}`),
+      ]),
+    ),
+  );
+}
+
+const outputSchema = z.object({ id: z.string() });
+
+const rows = (fieldCounts.length ? fieldCounts : [5, 10, 20]).flatMap(fieldCount =>
+  [false, true].map(compact => {
+    const start = performance.now();
+    const schema = mkTool2AgentSchema(mkInputSchema(fieldCount), outputSchema, { compact });
+    const jsonSchema = JSON.stringify(z.toJSONSchema(schema));
+    return {
+      fields: fieldCount,
+      mode: compact ? 'compact' : 'default',
+      'JSON Schema size (KB)': Math.round(jsonSchema.length / 1024),
+      'build time (ms)': Math.round(performance.now() - start),
+    };
+  }),
+);
+
+console.table(rows);
@@ -1,9 +1,12 @@
 import { z } from 'zod';
-import { mkTool2AgentSchema } from '../src/index.js';
+import { mkTool2AgentSchema, exportJsonSchema, type JsonSchemaProfile } from '../src/index.js';
 
 // Note: This script uses Zod v4's native z.toJSONSchema() method
 // which provides built-in JSON Schema conversion without external dependencies
 // Schema generation functionality has been moved to @tool2agent/schemas package
+// Usage: tsx scripts/produce-json-schemas.ts [draft-2020-12 | openai-strict | anthropic | gemini]
+
+const profile = (process.argv[2] ?? 'draft-2020-12') as JsonSchemaProfile;
 
 // Example input schema - must be a ZodObject
 const inputSchema = z.object({
@@ -31,7 +34,14 @@ console.log('\n=== Output Schema JSON Schema ===');
 const outputJsonSchema = z.toJSONSchema(outputSchema);
 console.log(JSON.stringify(outputJsonSchema, null, 2));
 
-// Convert the ToolCallResult schema to JSON Schema
-console.log('\n=== ToolCallResult JSON Schema ===');
-const jsonSchema = z.toJSONSchema(toolCallResultSchema);
+// Convert the ToolCallResult schema to JSON Schema of the requested profile
+console.log(`\n=== ToolCallResult JSON Schema (${profile}) ===`);
+const { jsonSchema, losses } = exportJsonSchema(toolCallResultSchema, profile);
 console.log(JSON.stringify(jsonSchema, null, 2));
+
+if (losses.length > 0) {
+  console.log(`\n=== Lost in ${profile} ===`);
+  for (const { path, keyword, message } of losses) {
+    console.log(`${path || '/'} (${keyword}): ${message}`);
+  }
+}
@@ -1 +1,5 @@
 export * from './schemas.js';
+export * from './json-schema-export.js';
+export * from './json-schema-import.js';
+export * from './zod-error.js';
+export * from './standard-schema.js';
@@ -0,0 +1,424 @@
+import { type ZodType, z } from 'zod';
+import type { JsonSchema } from '@tool2agent/types';
+
+/**
+ * JSON Schema dialect to export to.
+ * - `draft-2020-12`: plain `z.toJSONSchema()` output.
+ * - `openai-strict`: OpenAI function calling and structured outputs with `strict: true`.
+ * - `anthropic`: Anthropic tool `input_schema`.
+ * - `gemini`: Gemini function declarations (an OpenAPI 3.0 subset).
+ */
+export type JsonSchemaProfile = 'draft-2020-12' | 'openai-strict' | 'anthropic' | 'gemini';
+
+/** A constraint that could not be expressed in the target profile. */
+export type JsonSchemaLoss = {
+  /** JSON Pointer to the schema where the construct was found. */
+  path: string;
+  /** The JSON Schema keyword that was rewritten or removed. */
+  keyword: string;
+  /** What the exported schema accepts differently. */
+  message: string;
+};
+
+export type JsonSchemaExport = {
+  jsonSchema: JsonSchema;
+  /** Everything that was rewritten with a loss of precision. Empty if the export is exact. */
+  losses: JsonSchemaLoss[];
+};
+
+// What a profile does not support, and how it is rewritten
+type ProfileRules = {
+  // Removed, with a loss reported
+  unsupportedKeywords: string[];
+  // Removed silently
+  ignoredKeywords: string[];
+  rootMustBeObject: boolean;
+  // oneOf -> anyOf
+  noOneOf: boolean;
+  // allOf of objects -> a single object
+  noAllOf: boolean;
+  // const -> enum
+  noConst: boolean;
+  // Enum values can only be strings
+  stringEnumsOnly: boolean;
+  // $ref -> inlined definition
+  noRefs: boolean;
+  // Type arrays and null anyOf members -> `nullable: true`
+  nullableKeyword: boolean;
+  // Every object is closed, and every property is required
+  closedObjects: boolean;
+  // Schemas must have a type, anything else is a primitive
+  noAnyValue: boolean;
+  // additionalProperties is removed
+  noAdditionalProperties: boolean;
+};
+
+const noRules: ProfileRules = {
+  unsupportedKeywords: [],
+  ignoredKeywords: [],
+  rootMustBeObject: false,
+  noOneOf: false,
+  noAllOf: false,
+  noConst: false,
+  stringEnumsOnly: false,
+  noRefs: false,
+  nullableKeyword: false,
+  closedObjects: false,
+  noAnyValue: false,
+  noAdditionalProperties: false,
+};
+
+const conditionalKeywords = ['not', 'if', 'then', 'else', 'dependentRequired', 'dependentSchemas'];
+
+const profileRules: Record<JsonSchemaProfile, ProfileRules> = {
+  'draft-2020-12': noRules,
+  anthropic: { ...noRules, rootMustBeObject: true },
+  'openai-strict': {
+    ...noRules,
+    unsupportedKeywords: [
+      ...conditionalKeywords,
+      'minLength',
+      'maxLength',
+      'minProperties',
+      'maxProperties',
+      'patternProperties',
+      'propertyNames',
+      'uniqueItems',
+      'contains',
+      'prefixItems',
+      'unevaluatedProperties',
+      'unevaluatedItems',
+      'default',
+    ],
+    ignoredKeywords: ['$schema'],
+    rootMustBeObject: true,
+    noOneOf: true,
+    noAllOf: true,
+    closedObjects: true,
+    noAnyValue: true,
+  },
+  gemini: {
+    ...noRules,
+    unsupportedKeywords: [
+      ...conditionalKeywords,
+      'exclusiveMinimum',
+      'exclusiveMaximum',
+      'multipleOf',
+      'patternProperties',
+      'propertyNames',
+      'uniqueItems',
+      'contains',
+      'prefixItems',
+      'unevaluatedProperties',
+      'unevaluatedItems',
+    ],
+    ignoredKeywords: ['$schema', '$id', '$comment', 'examples'],
+    noOneOf: true,
+    noAllOf: true,
+    noConst: true,
+    stringEnumsOnly: true,
+    noRefs: true,
+    nullableKeyword: true,
+    noAdditionalProperties: true,
+  },
+};
+
+type ExportContext = {
+  rules: ProfileRules;
+  losses: JsonSchemaLoss[];
+  defs: Record<string, JsonSchema>;
+  root: JsonSchema;
+  // $refs that are being inlined, to detect recursion
+  inlining: string[];
+};
+
+function isSchemaObject(value: unknown): value is JsonSchema {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isObjectSchema(schema: JsonSchema): boolean {
+  return schema.type === 'object' || isSchemaObject(schema.properties);
+}
+
+function isAnyValue(schema: JsonSchema): boolean {
+  return ['type', 'anyOf', 'oneOf', 'allOf', '$ref', 'enum', 'const', 'properties'].every(
+    keyword => !(keyword in schema),
+  );
+}
+
+function lose(ctx: ExportContext, path: string, keyword: string, message: string): void {
+  ctx.losses.push({ path, keyword, message });
+}
+
+function resolveRef(ref: string, ctx: ExportContext): JsonSchema | undefined {
+  if (ref === '#') return ctx.root;
+  const name = /^#\/\$defs\/(.+)$/.exec(ref)?.[1];
+  return name === undefined ? undefined : ctx.defs[name];
+}
+
+function inlineRef(schema: JsonSchema, path: string, ctx: ExportContext): JsonSchema {
+  const ref = schema.$ref as string;
+  const { $ref: _ref, ...siblings } = schema;
+  const target = resolveRef(ref, ctx);
+  if (!target || ctx.inlining.includes(ref)) {
+    lose(
+      ctx,
+      path,
+      '$ref',
+      target
+        ? `Recursive reference to ${ref} is cut off, any object is accepted here`
+        : `Unresolvable reference to ${ref} is replaced with any object`,
+    );
+    return { ...siblings, type: 'object' };
+  }
+  ctx.inlining.push(ref);
+  const { $defs: _defs, $schema: _schema, ...definition } = target;
+  const inlined = rewriteSchema({ ...definition, ...siblings }, path, ctx);
+  ctx.inlining.pop();
+  return inlined;
+}
+
+// Members may refer to shared definitions
+function resolveMember(member: unknown, ctx: ExportContext): unknown {
+  return isSchemaObject(member) && typeof member.$ref === 'string'
+    ? (resolveRef(member.$ref, ctx) ?? member)
+    : member;
+}
+
+function mergeAllOf(schema: JsonSchema, path: string, ctx: ExportContext): JsonSchema {
+  const { allOf, ...merged } = schema;
+  const properties: Record<string, unknown> = { ...(merged.properties as object) };
+  const required = new Set((merged.required as string[] | undefined) ?? []);
+  (allOf as unknown[]).forEach((referenced, i) => {
+    const member = resolveMember(referenced, ctx);
+    if (!isSchemaObject(member) || !isObjectSchema(member)) {
+      lose(
+        ctx,
+        `${path}/allOf/${i}`,
+        'allOf',
+        'Only objects can be merged, this member is dropped',
+      );
+      return;
+    }
+    for (const [key, property] of Object.entries((member.properties as object | undefined) ?? {})) {
+      properties[key] =
+        key in properties
+          ? mergeProperty(properties[key], property, `${path}/properties/${key}`, ctx)
+          : property;
+    }
+    ((member.required as string[] | undefined) ?? []).forEach(key => required.add(key));
+    if (member.additionalProperties === false) merged.additionalProperties = false;
+  });
+  return { ...merged, type: 'object', properties, required: [...required] };
+}
+
+// A property defined by several allOf members must match all of their schemas.
+// Objects are merged like allOf itself, other schemas keyword by keyword.
+function mergeProperty(left: unknown, right: unknown, path: string, ctx: ExportContext): unknown {
+  if (left === true) return right;
+  if (right === true) return left;
+  if (!isSchemaObject(left) || !isSchemaObject(right)) {
+    if (JSON.stringify(left) !== JSON.stringify(right)) {
+      lose(ctx, path, 'allOf', 'Only the first definition of this property is kept');
+    }
+    return left;
+  }
+  const objects = [left, right].map(member => resolveMember(member, ctx));
+  if (objects.every(object => isSchemaObject(object) && isObjectSchema(object))) {
+    return { allOf: [left, right] };
+  }
+  const merged = { ...left };
+  for (const [keyword, value] of Object.entries(right)) {
+    if (!(keyword in merged)) {
+      merged[keyword] = value;
+    } else if (JSON.stringify(merged[keyword]) !== JSON.stringify(value)) {
+      lose(ctx, path, keyword, 'Conflicting definitions of this property, only the first is kept');
+    }
+  }
+  return merged;
+}
+
+// `{ type: ['string', 'null'] }` and `{ anyOf: [X, { type: 'null' }] }` -> `{ ...X, nullable: true }`
+function useNullableKeyword(schema: JsonSchema): JsonSchema {
+  if (Array.isArray(schema.type)) {
+    const types = (schema.type as string[]).filter(type => type !== 'null');
+    const nullable = types.length < schema.type.length ? { nullable: true } : {};
+    if (types.length === 1) return { ...schema, type: types[0], ...nullable };
+    const { type: _type, ...rest } = schema;
+    return { ...rest, anyOf: types.map(type => ({ type })), ...nullable };
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const members = (schema.anyOf as unknown[]).filter(
+      member => !(isSchemaObject(member) && member.type === 'null'),
+    );
+    if (members.length === schema.anyOf.length) return schema;
+    const { anyOf: _anyOf, ...rest } = schema;
+    return members.length === 1 && isSchemaObject(members[0])
+      ? { ...rest, ...members[0], nullable: true }
+      : { ...rest, anyOf: members, nullable: true };
+  }
+  return schema;
+}
+
+function makeNullable(schema: JsonSchema): JsonSchema {
+  if (typeof schema.type !== 'string' || 'const' in schema) {
+    return { anyOf: [schema, { type: 'null' }] };
+  }
+  const nullable = { ...schema, type: [schema.type, 'null'] };
+  return Array.isArray(schema.enum)
+    ? { ...nullable, enum: [...(schema.enum as unknown[]), null] }
+    : nullable;
+}
+
+function rewriteSubschemas(schema: JsonSchema, path: string, ctx: ExportContext): JsonSchema {
+  const result = { ...schema };
+  const rewrite = (value: unknown, subpath: string) =>
+    isSchemaObject(value) ? rewriteSchema(value, subpath, ctx) : value;
+  if (isSchemaObject(schema.properties)) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [
+        key,
+        rewrite(value, `${path}/properties/${key}`),
+      ]),
+    );
+  }
+  for (const keyword of ['items', 'additionalProperties', 'not']) {
+    if (keyword in schema) result[keyword] = rewrite(schema[keyword], `${path}/${keyword}`);
+  }
+  for (const keyword of ['anyOf', 'oneOf', 'allOf', 'prefixItems']) {
+    if (Array.isArray(schema[keyword])) {
+      result[keyword] = (schema[keyword] as unknown[]).map((value, i) =>
+        rewrite(value, `${path}/${keyword}/${i}`),
+      );
+    }
+  }
+  return result;
+}
+
+function closeObject(schema: JsonSchema, path: string, ctx: ExportContext): JsonSchema {
+  const result = { ...schema };
+  const { additionalProperties } = schema;
+  if (isSchemaObject(additionalProperties) && !isSchemaObject(schema.properties)) {
+    lose(ctx, path, 'additionalProperties', 'Records are not supported, no keys are accepted');
+  } else if (additionalProperties !== undefined && additionalProperties !== false) {
+    lose(ctx, path, 'additionalProperties', 'Unknown keys are not accepted');
+  }
+  result.additionalProperties = false;
+  const properties = (schema.properties as Record<string, JsonSchema> | undefined) ?? {};
+  const required = new Set((schema.required as string[] | undefined) ?? []);
+  result.properties = Object.fromEntries(
+    Object.entries(properties).map(([key, value]) => {
+      if (required.has(key)) return [key, value];
+      lose(
+        ctx,
+        `${path}/properties/${key}`,
+        'required',
+        'Optional property is required and nullable, null is sent instead of omitting it',
+      );
+      return [key, makeNullable(value)];
+    }),
+  );
+  result.required = Object.keys(properties);
+  return result;
+}
+
+function rewriteSchema(input: JsonSchema, path: string, ctx: ExportContext): JsonSchema {
+  const { rules } = ctx;
+  if (rules.noRefs && typeof input.$ref === 'string') return inlineRef(input, path, ctx);
+
+  let schema: JsonSchema = { ...input };
+  for (const keyword of rules.ignoredKeywords) delete schema[keyword];
+  for (const keyword of rules.unsupportedKeywords) {
+    if (keyword in schema) {
+      delete schema[keyword];
+      lose(ctx, path, keyword, `"${keyword}" is not supported and is not checked`);
+    }
+  }
+  if (rules.noRefs) delete schema.$defs;
+
+  if (rules.noAllOf && Array.isArray(schema.allOf)) schema = mergeAllOf(schema, path, ctx);
+  if (rules.noOneOf && Array.isArray(schema.oneOf)) {
+    const { oneOf, ...rest } = schema;
+    schema = { ...rest, anyOf: oneOf };
+    lose(ctx, path, 'oneOf', 'Replaced with anyOf, values matching several members are accepted');
+  }
+  if (rules.noConst && 'const' in schema) {
+    const { const: value, ...rest } = schema;
+    schema = { ...rest, enum: [value] };
+  }
+  if (rules.stringEnumsOnly && Array.isArray(schema.enum)) {
+    if (schema.enum.some(value => typeof value !== 'string')) {
+      const { enum: _enum, ...rest } = schema;
+      schema = rest;
+      lose(ctx, path, 'enum', 'Only string enums are supported, any value of the type is accepted');
+    }
+  }
+
+  // Objects are rewritten before their subschemas, so that no losses are reported for dropped subschemas
+  if (isObjectSchema(schema)) {
+    if (rules.closedObjects) schema = closeObject(schema, path, ctx);
+    if (rules.noAdditionalProperties && 'additionalProperties' in schema) {
+      const { additionalProperties, ...rest } = schema;
+      schema = rest;
+      if (additionalProperties === false) {
+        lose(ctx, path, 'additionalProperties', 'Unknown keys are accepted');
+      } else if (isSchemaObject(additionalProperties) && !isSchemaObject(schema.properties)) {
+        lose(ctx, path, 'additionalProperties', 'Record values are not checked');
+      }
+    }
+  }
+
+  schema = rewriteSubschemas(schema, path, ctx);
+
+  // Null members are merged after they have been rewritten
+  if (rules.nullableKeyword) schema = useNullableKeyword(schema);
+  if (rules.noAnyValue && !isObjectSchema(schema) && isAnyValue(schema)) {
+    lose(ctx, path, 'type', 'Any value is not supported, only primitives are accepted');
+    schema = {
+      ...schema,
+      anyOf: ['string', 'number', 'boolean', 'null'].map(type => ({ type })),
+    };
+  }
+  return schema;
+}
+
+/**
+ * Converts a Zod schema (e.g. one generated by `mkTool2AgentSchema()`) to JSON Schema,
+ * rewriting constructs that the given LLM provider does not support.
+ * The rewrites may make the exported schema accept more (or, rarely, different) values than the Zod schema,
+ * so every lossy rewrite is reported.
+ * Refinements (e.g. compact mode constraints) are never part of the JSON Schema and are not reported.
+ * @param schema - the schema to export
+ * @param profile - the JSON Schema dialect to target
+ * @returns the JSON Schema and the list of constructs that were lost
+ * @example
+ * const { jsonSchema, losses } = exportJsonSchema(z.object({ name: z.string().optional() }), 'openai-strict');
+ * // jsonSchema: { type: 'object', properties: { name: { type: ['string', 'null'] } }, required: ['name'], additionalProperties: false }
+ * // losses: [{ path: '/properties/name', keyword: 'required', message: 'Optional property is required and nullable, ...' }]
+ */
+export function exportJsonSchema(
+  schema: ZodType<unknown>,
+  profile: JsonSchemaProfile = 'draft-2020-12',
+): JsonSchemaExport {
+  const root = z.toJSONSchema(schema) as JsonSchema;
+  const ctx: ExportContext = {
+    rules: profileRules[profile],
+    losses: [],
+    defs: (root.$defs as Record<string, JsonSchema> | undefined) ?? {},
+    root,
+    inlining: [],
+  };
+  const jsonSchema = rewriteSchema(root, '', ctx);
+  if (isSchemaObject(jsonSchema.$defs)) {
+    jsonSchema.$defs = Object.fromEntries(
+      Object.entries(jsonSchema.$defs).map(([name, definition]) => [
+        name,
+        isSchemaObject(definition) ? rewriteSchema(definition, `/$defs/${name}`, ctx) : definition,
+      ]),
+    );
+  }
+  if (ctx.rules.rootMustBeObject && jsonSchema.type !== 'object') {
+    lose(ctx, '', 'type', 'The root schema must be an object, the provider may reject this schema');
+  }
+  return { jsonSchema, losses: ctx.losses };
+}
@@ -0,0 +1,411 @@
+import { type ZodType, z } from 'zod';
+import type { JsonSchema } from '@tool2agent/types';
+
+// Keywords that do not affect validation
+const annotationKeywords = new Set([
+  '$schema',
+  '$id',
+  '$comment',
+  'title',
+  'default',
+  'examples',
+  'deprecated',
+  'readOnly',
+  'writeOnly',
+  'format',
+]);
+
+const supportedKeywords = new Set([
+  ...annotationKeywords,
+  'description',
+  'type',
+  'nullable',
+  'enum',
+  'const',
+  'anyOf',
+  'oneOf',
+  'allOf',
+  '$ref',
+  '$defs',
+  'definitions',
+  // strings
+  'minLength',
+  'maxLength',
+  'pattern',
+  // numbers
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'multipleOf',
+  // objects
+  'properties',
+  'required',
+  'additionalProperties',
+  'propertyNames',
+  // arrays
+  'items',
+  'prefixItems',
+  'minItems',
+  'maxItems',
+]);
+
+const stringFormats: Record<string, () => z.ZodStringFormat> = {
+  email: () => z.email(),
+  uri: () => z.url(),
+  uuid: () => z.uuid(),
+  'date-time': () => z.iso.datetime({ offset: true }),
+  date: () => z.iso.date(),
+  time: () => z.iso.time(),
+  ipv4: () => z.ipv4(),
+  ipv6: () => z.ipv6(),
+};
+
+type ImportContext = {
+  root: JsonSchema;
+  // Schemas of $refs, filled in once they are converted
+  refs: Map<string, ZodType<unknown>>;
+  // $refs that are being converted, referred to lazily to support recursion
+  converting: Set<string>;
+  unsupported: string[];
+};
+
+function isSchemaObject(value: unknown): value is JsonSchema {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function resolveRef(ref: string, ctx: ImportContext): unknown {
+  if (!ref.startsWith('#')) return undefined;
+  return ref
+    .slice(1)
+    .split('/')
+    .filter(segment => segment !== '')
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>(
+      (node, segment) => (isSchemaObject(node) ? node[segment] : undefined),
+      ctx.root,
+    );
+}
+
+function convertRef(ref: string, path: string, ctx: ImportContext): ZodType<unknown> {
+  const converted = ctx.refs.get(ref);
+  if (converted) return converted;
+  if (ctx.converting.has(ref)) return z.lazy(() => ctx.refs.get(ref) ?? z.never());
+  const target = resolveRef(ref, ctx);
+  if (target === undefined) {
+    ctx.unsupported.push(`${path || '/'}: unresolvable $ref "${ref}"`);
+    return z.never();
+  }
+  ctx.converting.add(ref);
+  const schema = convert(target, ref.slice(1), ctx);
+  ctx.converting.delete(ref);
+  ctx.refs.set(ref, schema);
+  return schema;
+}
+
+function literalOf(value: unknown, path: string, ctx: ImportContext): ZodType<unknown> {
+  if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+    return z.literal(value as string | number | boolean | null);
+  }
+  ctx.unsupported.push(`${path || '/'}: enum and const values must be primitives`);
+  return z.never();
+}
+
+// Values that the sibling keywords reject are left out, so that no intersection is needed
+function literals(
+  values: unknown[],
+  base: ZodType<unknown> | undefined,
+  path: string,
+  ctx: ImportContext,
+): ZodType<unknown> {
+  const allowed = base ? values.filter(value => base.safeParse(value).success) : values;
+  if (allowed.length > 0 && allowed.every(value => typeof value === 'string')) {
+    return z.enum(allowed as [string, ...string[]]);
+  }
+  return union(allowed.map(value => literalOf(value, path, ctx)));
+}
+
+function union(schemas: ZodType<unknown>[]): ZodType<unknown> {
+  if (schemas.length === 0) return z.never();
+  if (schemas.length === 1) return schemas[0];
+  return z.union(schemas as [ZodType<unknown>, ZodType<unknown>, ...ZodType<unknown>[]]);
+}
+
+function convertString(schema: JsonSchema): ZodType<unknown> {
+  const format = stringFormats[schema.format as string]?.();
+  let result: z.ZodString | z.ZodStringFormat = format ?? z.string();
+  if (typeof schema.minLength === 'number') result = result.min(schema.minLength);
+  if (typeof schema.maxLength === 'number') result = result.max(schema.maxLength);
+  // Formats are emitted with their own pattern, which must not be checked twice
+  if (typeof schema.pattern === 'string' && schema.pattern !== format?._zod.def.pattern?.source) {
+    result = result.regex(new RegExp(schema.pattern));
+  }
+  return result;
+}
+
+function convertNumber(schema: JsonSchema, integer: boolean): ZodType<unknown> {
+  let result = integer ? z.number().int() : z.number();
+  // Draft 4 makes minimum and maximum exclusive with boolean flags
+  if (typeof schema.minimum === 'number') {
+    result =
+      schema.exclusiveMinimum === true ? result.gt(schema.minimum) : result.gte(schema.minimum);
+  }
+  if (typeof schema.maximum === 'number') {
+    result =
+      schema.exclusiveMaximum === true ? result.lt(schema.maximum) : result.lte(schema.maximum);
+  }
+  if (typeof schema.exclusiveMinimum === 'number') result = result.gt(schema.exclusiveMinimum);
+  if (typeof schema.exclusiveMaximum === 'number') result = result.lt(schema.exclusiveMaximum);
+  if (typeof schema.multipleOf === 'number') result = result.multipleOf(schema.multipleOf);
+  return result;
+}
+
+function convertObject(schema: JsonSchema, path: string, ctx: ImportContext): ZodType<unknown> {
+  const properties = isSchemaObject(schema.properties) ? schema.properties : {};
+  const required = new Set(Array.isArray(schema.required) ? (schema.required as string[]) : []);
+  const { additionalProperties } = schema;
+
+  // A record: only additional properties
+  if (isSchemaObject(additionalProperties) && Object.keys(properties).length === 0) {
+    const keySchema =
+      schema.propertyNames === undefined
+        ? z.string()
+        : convert(schema.propertyNames, `${path}/propertyNames`, ctx);
+    return z.record(
+      keySchema as z.core.$ZodRecordKey,
+      convert(additionalProperties, `${path}/additionalProperties`, ctx),
+    );
+  }
+  if (schema.propertyNames !== undefined) {
+    ctx.unsupported.push(`${path || '/'}: propertyNames is only supported for records`);
+  }
+
+  const shape = Object.fromEntries(
+    Object.entries(properties).map(([key, value]) => {
+      const property = convert(value, `${path}/properties/${key}`, ctx);
+      return [key, required.has(key) ? property : property.optional()];
+    }),
+  );
+  // Required keys without a property schema, e.g. in `anyOf: [{ required: ['a'] }, ...]`
+  for (const key of required) {
+    if (!(key in shape)) shape[key] = z.unknown().nonoptional();
+  }
+  if (additionalProperties === false) return z.strictObject(shape);
+  if (isSchemaObject(additionalProperties)) {
+    return z
+      .object(shape)
+      .catchall(convert(additionalProperties, `${path}/additionalProperties`, ctx));
+  }
+  return additionalProperties === true ? z.looseObject(shape) : z.object(shape);
+}
+
+function convertArray(schema: JsonSchema, path: string, ctx: ImportContext): ZodType<unknown> {
+  const items =
+    schema.items === undefined ? z.unknown() : convert(schema.items, `${path}/items`, ctx);
+  if (Array.isArray(schema.prefixItems)) {
+    if (typeof schema.minItems === 'number' || typeof schema.maxItems === 'number') {
+      ctx.unsupported.push(`${path || '/'}: minItems and maxItems are not supported for tuples`);
+    }
+    const prefixItems = (schema.prefixItems as unknown[]).map((item, i) =>
+      convert(item, `${path}/prefixItems/${i}`, ctx),
+    ) as [ZodType<unknown>, ...ZodType<unknown>[]];
+    return schema.items === false ? z.tuple(prefixItems) : z.tuple(prefixItems, items);
+  }
+  let result = z.array(items);
+  if (typeof schema.minItems === 'number') result = result.min(schema.minItems);
+  if (typeof schema.maxItems === 'number') result = result.max(schema.maxItems);
+  return result;
+}
+
+function convertType(
+  type: string,
+  schema: JsonSchema,
+  path: string,
+  ctx: ImportContext,
+): ZodType<unknown> {
+  switch (type) {
+    case 'string':
+      return convertString(schema);
+    case 'number':
+      return convertNumber(schema, false);
+    case 'integer':
+      return convertNumber(schema, true);
+    case 'boolean':
+      return z.boolean();
+    case 'null':
+      return z.null();
+    case 'object':
+      return convertObject(schema, path, ctx);
+    case 'array':
+      return convertArray(schema, path, ctx);
+    default:
+      ctx.unsupported.push(`${path || '/'}: unknown type "${type}"`);
+      return z.never();
+  }
+}
+
+// The type of a schema without the `type` keyword, judging by its keywords
+function impliedType(schema: JsonSchema): string | undefined {
+  if (['properties', 'additionalProperties', 'required'].some(k => k in schema)) return 'object';
+  if ('items' in schema || 'prefixItems' in schema) return 'array';
+  if ('minLength' in schema || 'maxLength' in schema || 'pattern' in schema) return 'string';
+  if (['minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum'].some(k => k in schema)) {
+    return 'number';
+  }
+  return undefined;
+}
+
+type ObjectSchema = z.ZodObject<Record<string, ZodType<unknown>>>;
+
+// Merges objects into one, so that the result is usable as a record input of mkTool2AgentSchema().
+// Properties of several objects are intersected, and required if any of the objects requires them.
+// Objects with `additionalProperties: false` only allow their own properties, as in JSON Schema.
+function mergeObjects(objects: ObjectSchema[]): ZodType<unknown> {
+  const catchalls = objects.map(object => object.def.catchall);
+  // Additional properties with a schema can not be merged into a single catchall
+  if (catchalls.some(c => c && !(c instanceof z.ZodNever) && !(c instanceof z.ZodUnknown))) {
+    return objects
+      .slice(1)
+      .reduce<ZodType<unknown>>((left, right) => z.intersection(left, right), objects[0]);
+  }
+  const strictObjects = objects.filter(object => object.def.catchall instanceof z.ZodNever);
+  const keys = [...new Set(objects.flatMap(object => Object.keys(object.shape)))];
+  const shape = Object.fromEntries(
+    keys.map(key => {
+      const properties = objects.flatMap(object => object.shape[key] ?? []);
+      const allowed = strictObjects.every(object => key in object.shape);
+      if (allowed && properties.length === 1) return [key, properties[0]];
+      const required = properties.some(property => !(property instanceof z.ZodOptional));
+      const property = allowed
+        ? properties
+            .map(property =>
+              property instanceof z.ZodOptional
+                ? (property.unwrap() as ZodType<unknown>)
+                : property,
+            )
+            .reduce((left, right) => z.intersection(left, right))
+        : z.never();
+      return [key, required ? property.nonoptional() : property.optional()];
+    }),
+  );
+  if (strictObjects.length > 0) return z.strictObject(shape);
+  return catchalls.some(c => c instanceof z.ZodUnknown) ? z.looseObject(shape) : z.object(shape);
+}
+
+function intersect(schemas: ZodType<unknown>[]): ZodType<unknown> {
+  if (schemas.length === 0) return z.unknown();
+  if (schemas.length === 1) return schemas[0];
+  if (schemas.every(schema => schema instanceof z.ZodObject)) {
+    return mergeObjects(schemas as ObjectSchema[]);
+  }
+  return schemas.reduce((left, right) => z.intersection(left, right));
+}
+
+function convertTypes(
+  schema: JsonSchema,
+  path: string,
+  ctx: ImportContext,
+): ZodType<unknown> | undefined {
+  const type = schema.type ?? impliedType(schema);
+  if (Array.isArray(type)) {
+    return union((type as string[]).map(member => convertType(member, schema, path, ctx)));
+  }
+  if (typeof type === 'string') return convertType(type, schema, path, ctx);
+  return undefined;
+}
+
+// Every keyword applies to the value, so the schemas of the keywords are intersected
+function convertSchema(schema: JsonSchema, path: string, ctx: ImportContext): ZodType<unknown> {
+  const base = convertTypes(schema, path, ctx);
+  const schemas: ZodType<unknown>[] = [];
+  if ('const' in schema) schemas.push(literals([schema.const], base, path, ctx));
+  if (Array.isArray(schema.enum)) schemas.push(literals(schema.enum as unknown[], base, path, ctx));
+  if (base && schemas.length === 0) schemas.push(base);
+  if (typeof schema.$ref === 'string') schemas.push(convertRef(schema.$ref, path, ctx));
+  for (const keyword of ['anyOf', 'oneOf'] as const) {
+    if (Array.isArray(schema[keyword])) {
+      schemas.push(
+        union(
+          (schema[keyword] as unknown[]).map((member, i) =>
+            convert(member, `${path}/${keyword}/${i}`, ctx),
+          ),
+        ),
+      );
+    }
+  }
+  if (Array.isArray(schema.allOf)) {
+    schemas.push(
+      intersect(
+        (schema.allOf as unknown[]).map((member, i) => convert(member, `${path}/allOf/${i}`, ctx)),
+      ),
+    );
+  }
+  return intersect(schemas);
+}
+
+function convert(schema: unknown, path: string, ctx: ImportContext): ZodType<unknown> {
+  if (schema === true) return z.unknown();
+  if (schema === false) return z.never();
+  if (!isSchemaObject(schema)) {
+    ctx.unsupported.push(`${path || '/'}: a schema must be an object or a boolean`);
+    return z.never();
+  }
+  for (const keyword of Object.keys(schema)) {
+    if (!supportedKeywords.has(keyword) && !keyword.startsWith('x-')) {
+      ctx.unsupported.push(`${path || '/'}: unsupported keyword "${keyword}"`);
+    }
+  }
+  let result = convertSchema(schema, path, ctx);
+  if (schema.nullable === true) result = result.nullable();
+  if (typeof schema.description === 'string') result = result.describe(schema.description);
+  return result;
+}
+
+/**
+ * Converts a JSON Schema (e.g. a tool definition from an external catalog) to a Zod schema,
+ * that can be passed to `mkTool2AgentSchema()` or `tool2agent()`.
+ * Objects become `ZodObject`s, so they are treated as record inputs, with per-field feedback.
+ * Supports objects, records, arrays, tuples, enums, `const`, `anyOf` / `oneOf` (as unions), `allOf`,
+ * local `$ref`s (including recursive ones), OpenAPI `nullable` and descriptions.
+ * Sibling keywords, such as `properties` next to `anyOf`, apply as well: their schemas are intersected.
+ * `oneOf` is not checked for exclusivity. Annotations such as `title` and `default` are ignored.
+ * @param jsonSchema - the JSON Schema to convert
+ * @returns the Zod schema. The type parameter is not checked against the JSON Schema.
+ * @throws Error listing every unsupported keyword, if there are any
+ * @example
+ * const inputSchema = fromJsonSchema<{ city: string }>({
+ *   type: 'object',
+ *   properties: { city: { type: 'string', description: 'City name' } },
+ *   required: ['city'],
+ * });
+ */
+export function fromJsonSchema<T = unknown>(jsonSchema: JsonSchema | boolean): ZodType<T> {
+  const ctx: ImportContext = {
+    root: isSchemaObject(jsonSchema) ? jsonSchema : {},
+    refs: new Map(),
+    converting: new Set(),
+    unsupported: [],
+  };
+  const schema = convert(jsonSchema, '', ctx);
+  if (ctx.unsupported.length > 0) {
+    throw new Error(`Unsupported JSON Schema:\n${ctx.unsupported.join('\n')}`);
+  }
+  return schema as ZodType<T>;
+}
+
+/**
+ * Converts the input and output JSON Schemas of a tool definition to Zod schemas.
+ * @see fromJsonSchema
+ * @example
+ * const { inputSchema, outputSchema } = fromJsonSchemaTool(catalog.tools.get_weather);
+ * const resultSchema = mkTool2AgentSchema(inputSchema, outputSchema);
+ */
+export function fromJsonSchemaTool<InputType = unknown, OutputType = unknown>(tool: {
+  inputSchema: JsonSchema | boolean;
+  outputSchema: JsonSchema | boolean;
+}): { inputSchema: ZodType<InputType>; outputSchema: ZodType<OutputType> } {
+  return {
+    inputSchema: fromJsonSchema<InputType>(tool.inputSchema),
+    outputSchema: fromJsonSchema<OutputType>(tool.outputSchema),
+  };
+}
@@ -1,6 +1,17 @@
 import { type ZodType, z } from 'zod';
 import type { NonEmptyArray, AtLeastOne, AtMostOne } from '@tool2agent/types';
 
+/**
+ * Constraint on which keys of an object may be present.
+ * Compact schemas check these with a refinement, instead of expanding them into union branches.
+ */
+export type KeyConstraint = {
+  kind: 'atLeastOne' | 'atMostOne' | 'none';
+  keys: string[];
+  /** Only check the constraint when the key has the value, e.g. `valid: false`. */
+  when?: { key: string; value: unknown };
+};
+
 /**
  * Tagged schema types that explicitly mark whether a schema is an object or union
  * These wrapper objects avoid the need to access Zod's internal _def property
@@ -8,6 +19,11 @@ import type { NonEmptyArray, AtLeastOne, AtMostOne } from '@tool2agent/types';
 export type TaggedObjectSchema<T extends z.ZodObject<z.ZodRawShape>> = {
   type: 'object';
   schema: T;
+  /**
+   * Key constraints that the object schema does not express by itself.
+   * They are applied as a refinement when the schema is untagged, because refined objects cannot be extended.
+   */
+  constraints?: KeyConstraint[];
 };
 
 export type TaggedUnionSchema<
@@ -31,8 +47,13 @@ export type TaggedSchema<
 /**
  * Helper to create a tagged object schema
  */
-export function tagObject<T extends z.ZodObject<z.ZodRawShape>>(schema: T): TaggedObjectSchema<T> {
-  return { type: 'object', schema };
+export function tagObject<T extends z.ZodObject<z.ZodRawShape>>(
+  schema: T,
+  constraints: KeyConstraint[] = [],
+): TaggedObjectSchema<T> {
+  return constraints.length > 0
+    ? { type: 'object', schema, constraints }
+    : { type: 'object', schema };
 }
 
 /**
@@ -46,10 +67,46 @@ export function tagUnion<T extends z.ZodUnion<[z.ZodTypeAny, z.ZodTypeAny, ...z.
 }
 
 /**
- * Helper to extract the schema from a tagged schema
+ * Adds a refinement that checks the key constraints, if there are any.
+ */
+function applyConstraints(schema: z.ZodTypeAny, constraints: KeyConstraint[] = []): z.ZodTypeAny {
+  if (constraints.length === 0) return schema;
+  return schema.superRefine((value, ctx) => {
+    const record = value as Record<string, unknown>;
+    for (const { kind, keys, when } of constraints) {
+      if (when && record[when.key] !== when.value) continue;
+      const condition = when ? ` when ${when.key} is ${JSON.stringify(when.value)}` : '';
+      const present = keys.filter(key => record[key] !== undefined);
+      if (kind === 'atLeastOne' && present.length === 0) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `At least one of ${keys.join(', ')} must be present${condition}`,
+        });
+      }
+      if (kind === 'atMostOne' && present.length > 1) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `At most one of ${keys.join(', ')} may be present, got ${present.join(', ')}`,
+        });
+      }
+      if (kind === 'none' && present.length > 0) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `None of ${keys.join(', ')} may be present${condition}, got ${present.join(', ')}`,
+        });
+      }
+    }
+  });
+}
+
+/**
+ * Helper to extract the schema from a tagged schema.
+ * Key constraints of compact objects are applied here.
  */
 export function untag<T extends TaggedSchema>(tagged: T): z.ZodTypeAny {
-  return tagged.schema;
+  if ((tagged as unknown as { type: string }).type === 'union') return tagged.schema;
+  const { schema, constraints } = tagged as TaggedObjectSchema<z.ZodObject<z.ZodRawShape>>;
+  return applyConstraints(schema, constraints);
 }
 
 /**
@@ -60,7 +117,20 @@ export function getUnionBranches(tagged: TaggedSchema): z.ZodTypeAny[] {
   return (tagged as unknown as { type: string }).type === 'union'
     ? (tagged as TaggedUnionSchema<z.ZodUnion<[z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]>>)
         .branches
-    : [(tagged as TaggedObjectSchema<z.ZodObject<z.ZodRawShape>>).schema];
+    : [untag(tagged)];
+}
+
+/**
+ * Flat object where every key is optional, constrained by a refinement.
+ * This is the compact form of atLeastOne / atMostOne.
+ */
+function compactTagged<TShape extends Record<string, ZodType<unknown>>>(
+  schemas: TShape,
+  kind: KeyConstraint['kind'],
+): TaggedObjectSchema<z.ZodObject<z.ZodRawShape>> {
+  const keys = Object.keys(schemas);
+  const shape = Object.fromEntries(keys.map(key => [key, schemas[key].optional()]));
+  return tagObject(z.object(shape).strict(), [{ kind, keys }]);
 }
 
 /**
@@ -73,7 +143,11 @@ type AtMostOneOutput<TShape extends Record<string, ZodType<unknown>>> = AtMostOn
 
 export function atMostOne<TShape extends Record<string, ZodType<unknown>>>(
   schemas: TShape,
+  compact = false,
 ): z.ZodType<AtMostOneOutput<TShape>> {
+  if (compact) {
+    return untag(compactTagged(schemas, 'atMostOne')) as z.ZodType<AtMostOneOutput<TShape>>;
+  }
   const keys = Object.keys(schemas) as (keyof TShape)[];
   const unionBranches = keys.map(key => {
     const branch: Record<string, ZodType<unknown>> = {};
@@ -86,11 +160,14 @@ export function atMostOne<TShape extends Record<string, ZodType<unknown>>>(
 }
 
 /**
- * Tagged version of atMostOne that returns a TaggedUnionSchema
+ * Tagged version of atMostOne that returns a TaggedUnionSchema,
+ * or a constrained TaggedObjectSchema in compact mode
  */
 export function atMostOneTagged<TShape extends Record<string, ZodType<unknown>>>(
   schemas: TShape,
-): TaggedUnionSchema<z.ZodUnion<[z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]>> {
+  compact = false,
+): TaggedSchema {
+  if (compact) return compactTagged(schemas, 'atMostOne');
   const keys = Object.keys(schemas) as (keyof TShape)[];
   const unionBranches = keys.map(key => {
     const branch: Record<string, ZodType<unknown>> = {};
@@ -115,7 +192,11 @@ type AtLeastOneOutput<TShape extends Record<string, ZodType<unknown>>> = AtLeast
 
 export function atLeastOne<TShape extends Record<string, ZodType<unknown>>>(
   schemas: TShape,
+  compact = false,
 ): z.ZodType<AtLeastOneOutput<TShape>> {
+  if (compact) {
+    return untag(compactTagged(schemas, 'atLeastOne')) as z.ZodType<AtLeastOneOutput<TShape>>;
+  }
   const keys = Object.keys(schemas) as (keyof TShape)[];
   // Generate all combinations where at least one key is present
   // For each key, create a branch where that key is required and others are optional
@@ -134,11 +215,14 @@ export function atLeastOne<TShape extends Record<string, ZodType<unknown>>>(
 }
 
 /**
- * Tagged version of atLeastOne that returns a TaggedUnionSchema
+ * Tagged version of atLeastOne that returns a TaggedUnionSchema,
+ * or a constrained TaggedObjectSchema in compact mode
  */
 export function atLeastOneTagged<TShape extends Record<string, ZodType<unknown>>>(
   schemas: TShape,
-): TaggedUnionSchema<z.ZodUnion<[z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]>> {
+  compact = false,
+): TaggedSchema {
+  if (compact) return compactTagged(schemas, 'atLeastOne');
   const keys = Object.keys(schemas) as (keyof TShape)[];
   // Generate all combinations where at least one key is present
   const unionBranches = keys.map(key => {
@@ -177,19 +261,19 @@ export function intersectSchemas<
   z.ZodObject<z.ZodRawShape> | z.ZodUnion<[z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]>
 > {
   if (left.type === 'object' && right.type === 'object') {
-    // Both are objects: use extend to merge shapes
+    // Both are objects: use extend to merge shapes, and keep the constraints of both
     const mergedObject = left.schema.extend(right.schema.shape).strict();
     // Return a tagged object schema directly (no union) to preserve exact type identity
-    return tagObject(mergedObject);
+    return tagObject(mergedObject, [...(left.constraints ?? []), ...(right.constraints ?? [])]);
   }
 
   if (left.type === 'object' && right.type === 'union') {
     // Object intersected with union: distribute over union branches
     const resultBranches = right.branches.map(branch => {
       if (branch instanceof z.ZodObject) {
-        return left.schema.extend(branch.shape).strict();
+        return applyConstraints(left.schema.extend(branch.shape).strict(), left.constraints);
       }
-      return z.intersection(left.schema, branch);
+      return z.intersection(untag(left), branch);
     });
     return tagUnion(
       z.union(resultBranches as unknown as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]),
@@ -201,9 +285,9 @@ export function intersectSchemas<
     // Union intersected with object: distribute over union branches
     const resultBranches = left.branches.map(branch => {
       if (branch instanceof z.ZodObject) {
-        return right.schema.extend(branch.shape).strict();
+        return applyConstraints(right.schema.extend(branch.shape).strict(), right.constraints);
       }
-      return z.intersection(branch, right.schema);
+      return z.intersection(branch, untag(right));
     });
     return tagUnion(
       z.union(resultBranches as unknown as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]),
@@ -239,3 +323,17 @@ export const nonEmptyArray = <T extends ZodType<unknown>>(
     .min(1, { message: 'Array must contain at least one element' }) as unknown as z.ZodType<
     NonEmptyArray<z.infer<T>>
   >;
+
+/**
+ * Returns the members of a union of objects (including discriminated unions),
+ * or null if the schema is not a union or has non-object members.
+ */
+export function getObjectUnionMembers(
+  schema: ZodType<unknown>,
+): z.ZodObject<Record<string, ZodType<unknown>>>[] | null {
+  if (!(schema instanceof z.ZodUnion)) return null;
+  const members = schema.options as ZodType<unknown>[];
+  return members.every(member => member instanceof z.ZodObject)
+    ? (members as z.ZodObject<Record<string, ZodType<unknown>>>[])
+    : null;
+}
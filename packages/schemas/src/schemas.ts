@@ -1,13 +1,30 @@
 import { type ZodType, z, ZodNever, ZodObject } from 'zod';
 import type {
   ToolCallResult,
+  AsyncToolCallResult,
+  ToolCallPending,
+  ToolCallProgress,
+  StreamingToolCallResult,
+  ToolCallPartialSuccess,
+  BatchToolCallResult,
   FeedbackAndInstructions,
+  ToolReference,
+  Instruction,
+  NonEmptyArray,
   AcceptableValues,
+  AnnotatedSuggestion,
+  Problem,
+  JsonSchema,
   ParameterValidationResult,
+  ItemValidationResult,
   ToolCallSuccess,
+  InputNormalization,
   ToolCallFailure,
+  ToolCallConfirmationRequired,
+  RetryClassification,
   ParameterValidationFailureReasons,
   ValueFailureFeedback,
+  ArrayFailureFeedback,
 } from '@tool2agent/types';
 import {
   nonEmptyArray,
@@ -16,40 +33,229 @@ import {
   atLeastOne,
   atLeastOneTagged,
   tagObject,
-  tagUnion,
   untag,
   intersectSchemas,
   getUnionBranches,
-  type TaggedUnionSchema,
+  getObjectUnionMembers,
   type TaggedSchema,
 } from './schema-tools.js';
+import {
+  toZodSchema,
+  type AnySchema,
+  type InferSchemaOutput,
+  type StandardSchemaV1,
+} from './standard-schema.js';
+
+/** Validation results keyed by the fields of a record input. */
+type ValidationResults<InputType extends Record<string, unknown>> = {
+  [K in keyof InputType & string]?: ParameterValidationResult<InputType, K>;
+};
 
 // Trivial reusable schemas
 const feedbackSchema = nonEmptyArray(z.string())
   .describe('Freeform feedback for the tool call. Cannot be empty.')
   .optional();
 
-const instructionsSchema = nonEmptyArray(z.string())
-  .describe('Freeform instructions for the agent in response to the tool call. Cannot be empty.')
-  .optional();
+/** Options shared by the schema generators. */
+export type SchemaOptions = {
+  /**
+   * Names of the tools available to the agent.
+   * If provided, `relatedTools` and `call_tool` instructions may only refer to these tools.
+   */
+  toolNames?: NonEmptyArray<string>;
+  /**
+   * Express AtLeastOne / AtMostOne constraints as flat objects with refinements
+   * instead of unions of every allowed key combination.
+   * The emitted JSON Schema is much smaller for large inputs, but no longer contains these constraints,
+   * so they are only checked when parsing.
+   * Validation results of nested object and array fields are always compact.
+   */
+  compact?: boolean;
+};
+
+function toolNameSchema(options: SchemaOptions) {
+  return (options.toolNames ? z.enum(options.toolNames) : z.string()).describe(
+    'Name of the tool to call.',
+  );
+}
+
+/**
+ * Registers a schema under an id, so that JSON Schema conversions emit it once in `$defs`
+ * and refer to it, instead of inlining a copy into every union branch that uses it.
+ */
+function sharedDefinition<T extends ZodType<unknown>>(id: string, schema: T): T {
+  try {
+    return schema.meta({ id });
+  } catch {
+    // Ids are global: another copy of this package has registered it already, so this copy is inlined
+    return schema;
+  }
+}
+
+/**
+ * Builds a schema that depends on the tool names once per list of tool names, so that every outcome
+ * and validation result shares the same instance. The schema without tool names is a shared definition.
+ */
+function sharedByToolNames<T extends ZodType<unknown>>(
+  id: string,
+  build: (options: SchemaOptions) => T,
+): (options: SchemaOptions) => T {
+  const shared = sharedDefinition(id, build({}));
+  const byToolNames = new WeakMap<NonEmptyArray<string>, T>();
+  return ({ toolNames }) => {
+    if (!toolNames) return shared;
+    let schema = byToolNames.get(toolNames);
+    if (!schema) {
+      schema = build({ toolNames });
+      byToolNames.set(toolNames, schema);
+    }
+    return schema;
+  };
+}
 
-const problemsSchema = nonEmptyArray(z.string()).describe(
-  'Freeform reasons for why the parameter was not considered valid. Cannot be empty.',
+const toolReferenceSchema = sharedByToolNames('tool2agent.ToolReference', options =>
+  z
+    .object({
+      toolName: toolNameSchema(options),
+      relation: z
+        .enum(['prerequisite', 'followUp'])
+        .describe(
+          'prerequisite: call the tool before repeating this call. followUp: call the tool after this call.',
+        ),
+      suggestedInput: z
+        .unknown()
+        .optional()
+        .describe('Input to call the tool with, as far as it is known.'),
+      reason: z.string().optional().describe('Why the tool should be called.'),
+    })
+    .strict(),
 );
 
-const problemsRefusalSchema = nonEmptyArray(z.string()).describe(
-  'Freeform reasons for why the parameter was not considered valid',
+const relatedToolsSchema = sharedByToolNames('tool2agent.RelatedTools', options =>
+  nonEmptyArray(toolReferenceSchema(options)).describe(
+    'Other tools the agent should call. Cannot be empty.',
+  ),
 );
 
-const problemsHighLevelSchema = nonEmptyArray(z.string()).describe(
+const instructionSchema = sharedByToolNames('tool2agent.Instruction', options =>
+  z.union([
+    z.string(),
+    z.discriminatedUnion('kind', [
+      z
+        .object({
+          kind: z.literal('ask_user').describe('Ask the user a question before going on.'),
+          question: z.string(),
+          options: nonEmptyArray(z.string()).optional().describe('Answers to offer to the user.'),
+        })
+        .strict(),
+      z
+        .object({
+          kind: z.literal('call_tool').describe('Call another tool.'),
+          toolName: toolNameSchema(options),
+          suggestedInput: z
+            .unknown()
+            .optional()
+            .describe('Input to call the tool with, as far as it is known.'),
+          reason: z.string().optional().describe('Why the tool should be called.'),
+        })
+        .strict(),
+      z
+        .object({
+          kind: z
+            .literal('stop_and_report')
+            .describe('Stop calling tools and report the message to the user.'),
+          message: z.string(),
+        })
+        .strict(),
+      z
+        .object({
+          kind: z
+            .literal('retry')
+            .describe('Repeat the tool call, with the changes described in the message, if any.'),
+          message: z.string().optional(),
+        })
+        .strict(),
+    ]),
+  ]),
+);
+
+const instructionsSchema = sharedByToolNames('tool2agent.Instructions', options =>
+  nonEmptyArray(instructionSchema(options)).describe(
+    'Instructions for the agent in response to the tool call: freeform text or typed entries. Cannot be empty.',
+  ),
+);
+
+// FeedbackAndInstructions keys, shared by all outcomes and validation results
+function feedbackAndInstructionsShape(options: SchemaOptions) {
+  return {
+    feedback: feedbackSchema,
+    instructions: instructionsSchema(options).optional(),
+    relatedTools: relatedToolsSchema(options).optional(),
+  };
+}
+
+const problemSchema = sharedDefinition(
+  'tool2agent.Problem',
+  z.union([
+    z.string(),
+    z
+      .object({
+        code: z.string().describe('Stable machine-readable identifier of the problem.'),
+        message: z.string().describe('Human-readable description of the problem.'),
+        params: z
+          .record(z.string(), z.unknown())
+          .optional()
+          .describe('Values the problem refers to.'),
+      })
+      .strict(),
+  ]),
+);
+
+const problemsSchema = nonEmptyArray(problemSchema).describe(
+  'Reasons for why the parameter was not considered valid. Cannot be empty.',
+);
+
+const problemsRefusalSchema = nonEmptyArray(problemSchema).describe(
+  'Reasons for why the parameter was not considered valid',
+);
+
+const problemsHighLevelSchema = nonEmptyArray(problemSchema).describe(
   'High-level reasons why the tool call was rejected. Cannot be empty.',
 );
 
-const dynamicParameterSchema = z
-  .unknown()
+// JSON Schema document: the wire form of a dynamic parameter schema.
+// Keywords that tool2agent tooling relies on are typed, the rest are passed through.
+const jsonSchemaSchema: z.ZodType<JsonSchema> = z.looseObject({
+  $schema: z.string().optional(),
+  type: z.union([z.string(), z.array(z.string())]).optional(),
+  description: z.string().optional(),
+  enum: z.array(z.unknown()).optional(),
+  const: z.unknown().optional(),
+  get properties() {
+    return z.record(z.string(), jsonSchemaSchema).optional();
+  },
+  required: z.array(z.string()).optional(),
+  get additionalProperties() {
+    return z.union([z.boolean(), jsonSchemaSchema]).optional();
+  },
+  get items() {
+    return jsonSchemaSchema.optional();
+  },
+  get anyOf() {
+    return z.array(jsonSchemaSchema).optional();
+  },
+  get oneOf() {
+    return z.array(jsonSchemaSchema).optional();
+  },
+  get allOf() {
+    return z.array(jsonSchemaSchema).optional();
+  },
+});
+
+const dynamicParameterSchema = jsonSchemaSchema
   .optional()
   .describe(
-    'The tooling may dynamically validate the parameter based on the context. This is useful for parameters whose shape is not statically known at design time.',
+    'JSON Schema of the acceptable values. The tooling may dynamically validate the parameter based on the context. This is useful for parameters whose shape is not statically known at design time.',
   );
 
 const normalizedValueDescription = 'The tooling may normalize values to a canonical form.';
@@ -59,28 +265,87 @@ const allowedValuesDescription =
 
 const suggestedValuesDescription = 'Non-exhaustive list of acceptable values. Cannot be empty.';
 
-export function mkFeedbackAndInstructionsSchema(): z.ZodType<FeedbackAndInstructions> {
+const annotatedSuggestionsDescription =
+  'Non-exhaustive list of acceptable values, annotated for the agent. Cannot be empty.';
+
+function annotatedSuggestionSchema<T>(valueSchema: ZodType<T>) {
   return z
     .object({
-      feedback: feedbackSchema,
-      instructions: instructionsSchema,
+      value: valueSchema,
+      label: z.string().optional().describe('Short human-readable name of the value.'),
+      description: z
+        .string()
+        .optional()
+        .describe('Additional context, e.g. availability or price.'),
+      score: z.number().optional().describe('Relevance of the suggestion. Higher is better.'),
     })
     .strict();
 }
 
+// The annotations do not depend on the value type: every parameter refers to this definition,
+// and only adds the type of its values
+const sharedAnnotatedSuggestionSchema = sharedDefinition(
+  'tool2agent.AnnotatedSuggestion',
+  annotatedSuggestionSchema(z.unknown()),
+);
+
+function annotatedSuggestionsSchema<T>(valueSchema: ZodType<T>) {
+  return nonEmptyArray(
+    z.intersection(sharedAnnotatedSuggestionSchema, z.looseObject({ value: valueSchema })),
+  ).describe(annotatedSuggestionsDescription);
+}
+
+// AcceptableValues keys, combined with atMostOne
+function acceptableValuesShape<T>(valueSchema: ZodType<T>) {
+  return {
+    allowedValues: z.array(valueSchema).describe(allowedValuesDescription),
+    suggestedValues: nonEmptyArray(valueSchema).describe(suggestedValuesDescription),
+    annotatedSuggestions: annotatedSuggestionsSchema(valueSchema),
+  };
+}
+
+export function mkJsonSchemaSchema(): z.ZodType<JsonSchema> {
+  return jsonSchemaSchema;
+}
+
+export function mkProblemSchema(): z.ZodType<Problem> {
+  return problemSchema;
+}
+
+export function mkFeedbackAndInstructionsSchema(
+  options: SchemaOptions = {},
+): z.ZodType<FeedbackAndInstructions> {
+  return z.object(feedbackAndInstructionsShape(options)).strict();
+}
+
+export function mkInstructionSchema(options: SchemaOptions = {}): z.ZodType<Instruction> {
+  return instructionSchema(options);
+}
+
+export function mkToolReferenceSchema(options: SchemaOptions = {}): z.ZodType<ToolReference> {
+  return toolReferenceSchema(options);
+}
+
 export function mkAcceptableValuesSchema<T extends ZodType<unknown>>(
   valueSchema: T,
+  options: SchemaOptions = {},
 ): z.ZodType<AcceptableValues<z.infer<T>>> {
-  return atMostOne({
-    allowedValues: z.array(valueSchema).describe(allowedValuesDescription),
-    suggestedValues: nonEmptyArray(valueSchema).describe(suggestedValuesDescription),
-  }) as z.ZodType<AcceptableValues<z.infer<T>>>;
+  return atMostOne(acceptableValuesShape(valueSchema), options.compact) as z.ZodType<
+    AcceptableValues<z.infer<T>>
+  >;
+}
+
+export function mkAnnotatedSuggestionSchema<T extends ZodType<unknown>>(
+  valueSchema: T,
+): z.ZodType<AnnotatedSuggestion<z.infer<T>>> {
+  return annotatedSuggestionSchema(valueSchema) as z.ZodType<AnnotatedSuggestion<z.infer<T>>>;
 }
 
 export function mkParameterValidationFailureReasonsSchema<
   InputType extends Record<string, unknown>,
 >(
   paramKeyEnum: z.ZodEnum<Record<string, string>> | null,
+  options: SchemaOptions = {},
 ): z.ZodType<ParameterValidationFailureReasons<InputType, keyof InputType>> {
   const branches: Record<string, ZodType<unknown>> = {
     problems: problemsRefusalSchema,
@@ -90,7 +355,7 @@ export function mkParameterValidationFailureReasonsSchema<
       'Parameters that must be valid before this parameter can be validated. Must be valid keys from the input schema.',
     );
   }
-  return atLeastOne(branches) as z.ZodType<
+  return atLeastOne(branches, options.compact) as z.ZodType<
     ParameterValidationFailureReasons<InputType, keyof InputType>
   >;
 }
@@ -100,7 +365,9 @@ export function mkParameterValidationFailureReasonsSchema<
  */
 function mkParameterValidationFailureReasonsSchemaTagged(
   paramKeyEnum: z.ZodEnum<Record<string, string>> | null,
-): TaggedUnionSchema<z.ZodUnion<[z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]>> {
+  nestedValidationResultsSchema: ZodType<unknown> | null,
+  options: SchemaOptions,
+): TaggedSchema {
   const branches: Record<string, ZodType<unknown>> = {
     problems: problemsRefusalSchema,
   };
@@ -109,7 +376,90 @@ function mkParameterValidationFailureReasonsSchemaTagged(
       'Parameters that must be valid before this parameter can be validated. Must be valid keys from the input schema.',
     );
   }
-  return atLeastOneTagged(branches);
+  if (nestedValidationResultsSchema) {
+    branches.validationResults = nestedValidationResultsSchema;
+  }
+  return atLeastOneTagged(branches, options.compact);
+}
+
+/**
+ * Strips optional and nullable wrappers, so that the shape of the value itself can be inspected.
+ */
+function unwrapValueSchema(valueSchema: ZodType<unknown>): ZodType<unknown> {
+  if (valueSchema instanceof z.ZodOptional || valueSchema instanceof z.ZodNullable) {
+    return unwrapValueSchema(valueSchema.unwrap() as ZodType<unknown>);
+  }
+  return valueSchema;
+}
+
+/**
+ * Creates a Zod schema for NestedValidationResults: field feedback for object values,
+ * per-index item feedback for array values, and nothing (null) for other values.
+ * Nested validation results are always compact: every union branch of the parent result carries a copy of them,
+ * so expanding their constraints into unions too would make the JSON Schema grow exponentially with the depth.
+ */
+function mkNestedValidationResultsSchema(
+  valueSchema: ZodType<unknown>,
+  parentOptions: SchemaOptions,
+): ZodType<unknown> | null {
+  const options = { ...parentOptions, compact: true };
+  const unwrapped = unwrapValueSchema(valueSchema);
+  if (unwrapped instanceof ZodObject) {
+    const objectSchema = unwrapped as z.ZodObject<Record<string, ZodType<unknown>>>;
+    const keys = Object.keys(objectSchema.shape);
+    if (keys.length === 0) return null;
+    return mkValidationResultsSchema(
+      objectSchema,
+      createKeyEnum(objectSchema, keys),
+      options,
+    ).describe('Validation feedback for individual fields of this object.');
+  }
+  const unionMembers = getObjectUnionMembers(unwrapped);
+  if (unionMembers) {
+    return mkUnionValidationResultsSchema(unwrapped, unionMembers, options).describe(
+      'Validation feedback for individual fields of this object.',
+    );
+  }
+  if (unwrapped instanceof z.ZodArray) {
+    return mkItemValidationResultsSchema(unwrapped.element as ZodType<unknown>, options).describe(
+      'Validation feedback for individual items of this array, keyed by item index.',
+    );
+  }
+  return null;
+}
+
+/**
+ * Creates a Zod schema for FieldValidationResults of a union of objects.
+ * The feedback refers to the fields of a single member, so `requiresValidParameters` is restricted to its keys.
+ * For discriminated unions, every member is described by its discriminator value.
+ */
+function mkUnionValidationResultsSchema(
+  unionSchema: ZodType<unknown>,
+  members: z.ZodObject<Record<string, ZodType<unknown>>>[],
+  options: SchemaOptions,
+): ZodType<unknown> {
+  const discriminator =
+    unionSchema instanceof z.ZodDiscriminatedUnion ? unionSchema.def.discriminator : undefined;
+  const branches = members.map(member => {
+    const keys = Object.keys(member.shape);
+    const validationResults = mkValidationResultsSchema(
+      member,
+      createKeyEnum(member, keys),
+      options,
+    );
+    const discriminatorSchema = discriminator ? member.shape[discriminator] : undefined;
+    if (!(discriminatorSchema instanceof z.ZodLiteral)) return validationResults;
+    const values = [...discriminatorSchema.values].map(value => JSON.stringify(value));
+    return validationResults.describe(`Variant where ${discriminator} is ${values.join(' or ')}.`);
+  });
+  return oneOf(branches);
+}
+
+/**
+ * Creates a Zod schema for ItemValidationResults: item validation results keyed by item index.
+ */
+function mkItemValidationResultsSchema(itemSchema: ZodType<unknown>, options: SchemaOptions) {
+  return z.record(z.string().regex(/^\d+$/), mkItemValidationResultSchema(itemSchema, options));
 }
 
 export function mkParameterValidationResultSchema<
@@ -119,27 +469,62 @@ export function mkParameterValidationResultSchema<
 >(
   valueSchema: ZodType<ValueT> | undefined,
   paramKeyEnum: z.ZodEnum<Record<string, string>> | null,
+  options: SchemaOptions = {},
 ): z.ZodType<ParameterValidationResult<InputType, ParamKey>> {
   const baseValueSchema = valueSchema ?? z.unknown();
+  const nestedValidationResultsSchema = mkNestedValidationResultsSchema(baseValueSchema, options);
 
   // Build common schema: normalizedValue, dynamicParameterSchema, feedback, instructions
-  // Note: dynamicParameterSchema uses z.unknown() instead of z.custom() to enable JSON Schema conversion
-  // The actual runtime value would be a ZodType, but at serialization time it's represented as unknown
+  // Note: dynamicParameterSchema describes the wire form (JSON Schema), not the Zod schema returned by the tool
   const commonSchema = z.object({
     normalizedValue: baseValueSchema.optional(),
     dynamicParameterSchema,
-    feedback: feedbackSchema,
-    instructions: instructionsSchema,
+    ...feedbackAndInstructionsShape(options),
+    // Nested validation results are only allowed for object and array values
+    ...(nestedValidationResultsSchema
+      ? { validationResults: nestedValidationResultsSchema.optional() }
+      : {}),
   });
 
   // Build AcceptableValues union schema (AtMostOne) - tagged
-  const acceptableValuesSchemaTagged = atMostOneTagged({
-    allowedValues: z.array(baseValueSchema).describe(allowedValuesDescription),
-    suggestedValues: nonEmptyArray(baseValueSchema).describe(suggestedValuesDescription),
-  });
+  const acceptableValuesSchemaTagged = atMostOneTagged(
+    acceptableValuesShape(baseValueSchema),
+    options.compact,
+  );
 
   // Build ParameterValidationFailureReasons union schema (AtLeastOne) - tagged
-  const refusalSchemaTagged = mkParameterValidationFailureReasonsSchemaTagged(paramKeyEnum);
+  // For object and array values, nested validation results also justify the refusal
+  const refusalSchemaTagged = mkParameterValidationFailureReasonsSchemaTagged(
+    paramKeyEnum,
+    nestedValidationResultsSchema,
+    options,
+  );
+
+  if (options.compact && refusalSchemaTagged.type === 'object') {
+    // A single object instead of a union of valid and invalid results: every branch of the union would carry
+    // a copy of the nested validation results, doubling the JSON Schema with every level of nesting.
+    // The refusal reasons are only required, and only allowed, for invalid values.
+    const refusalOnlyKeys = Object.keys(refusalSchemaTagged.schema.shape).filter(
+      key => !(key in commonSchema.shape),
+    );
+    const validOrInvalidBase = tagObject(
+      z.object({ valid: z.boolean() }).extend(commonSchema.shape).strict(),
+      [{ kind: 'none', keys: refusalOnlyKeys, when: { key: 'valid', value: true } }],
+    );
+    const refusalWhenInvalidTagged = tagObject(
+      refusalSchemaTagged.schema,
+      (refusalSchemaTagged.constraints ?? []).map(constraint => ({
+        ...constraint,
+        when: { key: 'valid', value: false },
+      })),
+    );
+    return untag(
+      intersectSchemas(
+        intersectSchemas(validOrInvalidBase, acceptableValuesSchemaTagged),
+        refusalWhenInvalidTagged,
+      ),
+    ) as unknown as z.ZodType<ParameterValidationResult<InputType, ParamKey>>;
+  }
 
   // Branch 1: valid: true
   // Intersect: { valid: true } & common & AcceptableValues union
@@ -179,26 +564,51 @@ export function mkParameterValidationResultSchema<
   ]) as unknown as z.ZodType<ParameterValidationResult<InputType, ParamKey>>;
 }
 
+/**
+ * Creates a Zod schema for ItemValidationResult: the validation result for a single array item.
+ * Same as a parameter validation result, but without `requiresValidParameters`, since items have no sibling fields.
+ */
+export function mkItemValidationResultSchema<ItemType>(
+  itemSchema: ZodType<ItemType>,
+  options: SchemaOptions = {},
+): z.ZodType<ItemValidationResult<ItemType>> {
+  return mkParameterValidationResultSchema(itemSchema, null, options) as unknown as z.ZodType<
+    ItemValidationResult<ItemType>
+  >;
+}
+
 /**
  * Creates a Zod schema for ValueFailureFeedback.
  * Used for non-record input types where feedback is provided for the entire input value.
  */
 export function mkValueFailureFeedbackSchema<InputType>(
   inputSchema: ZodType<InputType>,
+  options: SchemaOptions = {},
 ): z.ZodType<ValueFailureFeedback<InputType>> {
+  return untag(mkValueFailureFeedbackSchemaTagged(inputSchema, options)) as z.ZodType<
+    ValueFailureFeedback<InputType>
+  >;
+}
+
+/**
+ * Tagged version of mkValueFailureFeedbackSchema
+ */
+function mkValueFailureFeedbackSchemaTagged(
+  inputSchema: ZodType<unknown>,
+  options: SchemaOptions,
+): TaggedSchema {
   // Build common schema: normalizedValue, dynamicParameterSchema, feedback, instructions
   const commonSchema = z.object({
     normalizedValue: inputSchema.optional().describe(normalizedValueDescription),
     dynamicParameterSchema,
-    feedback: feedbackSchema,
-    instructions: instructionsSchema,
+    ...feedbackAndInstructionsShape(options),
   });
 
   // Build AcceptableValues union schema (AtMostOne) - tagged
-  const acceptableValuesSchemaTagged = atMostOneTagged({
-    allowedValues: z.array(inputSchema).describe(allowedValuesDescription),
-    suggestedValues: nonEmptyArray(inputSchema).describe(suggestedValuesDescription),
-  });
+  const acceptableValuesSchemaTagged = atMostOneTagged(
+    acceptableValuesShape(inputSchema),
+    options.compact,
+  );
 
   // Build base schema with problems field
   const problemsSchemaTagged = tagObject(
@@ -211,24 +621,97 @@ export function mkValueFailureFeedbackSchema<InputType>(
   );
 
   // Intersect: problems & common & AcceptableValues union
-  const resultTagged = intersectSchemas(problemsSchemaTagged, acceptableValuesSchemaTagged);
+  return intersectSchemas(problemsSchemaTagged, acceptableValuesSchemaTagged);
+}
+
+/**
+ * Creates a Zod schema for ArrayFailureFeedback.
+ * Used for array input types, where feedback is provided for the entire input and for individual items.
+ */
+export function mkArrayFailureFeedbackSchema<ItemSchema extends ZodType<unknown>>(
+  inputSchema: z.ZodArray<ItemSchema>,
+  options: SchemaOptions = {},
+): z.ZodType<ArrayFailureFeedback<z.infer<ItemSchema>[]>> {
+  return untag(mkArrayFailureFeedbackSchemaTagged(inputSchema, options)) as z.ZodType<
+    ArrayFailureFeedback<z.infer<ItemSchema>[]>
+  >;
+}
+
+/**
+ * Tagged version of mkArrayFailureFeedbackSchema
+ */
+function mkArrayFailureFeedbackSchemaTagged(
+  inputSchema: z.ZodArray<ZodType<unknown>>,
+  options: SchemaOptions,
+): TaggedSchema {
+  // Build common schema: normalizedValue, dynamicParameterSchema, feedback, instructions
+  const commonSchemaTagged = tagObject(
+    z
+      .object({
+        normalizedValue: inputSchema.optional().describe(normalizedValueDescription),
+        dynamicParameterSchema,
+        ...feedbackAndInstructionsShape(options),
+      })
+      .strict(),
+  );
+
+  // Build AcceptableValues union schema (AtMostOne) - tagged
+  const acceptableValuesSchemaTagged = atMostOneTagged(
+    acceptableValuesShape(inputSchema),
+    options.compact,
+  );
+
+  // Build AtLeastOne union schema for validationResults/problems - tagged
+  const atLeastOneSchemaTagged = atLeastOneTagged(
+    {
+      validationResults: mkItemValidationResultsSchema(inputSchema.element, options).describe(
+        'Validation feedback for individual items of the input, keyed by item index.',
+      ),
+      problems: problemsHighLevelSchema,
+    },
+    options.compact,
+  );
 
-  // Extract the final schema (result is always a union from intersectSchemas)
-  return untag(resultTagged) as z.ZodType<ValueFailureFeedback<InputType>>;
+  // Intersect: common & AcceptableValues union & AtLeastOne union
+  return intersectSchemas(
+    intersectSchemas(commonSchemaTagged, acceptableValuesSchemaTagged),
+    atLeastOneSchemaTagged,
+  );
 }
 
+// Object schemas whose validation results are being built, to stop at recursive schemas
+const objectSchemasInProgress = new Set<ZodType<unknown>>();
+
+// Validation results of a recursive object schema refer to the schema itself, which can not be expanded again
+const recursiveValidationResultsSchema = z
+  .record(z.string(), z.looseObject({ valid: z.boolean() }))
+  .describe('Validation feedback for individual fields of this object.');
+
 export function mkValidationResultsSchema<InputType extends Record<string, unknown>>(
   inputSchema: z.ZodObject<Record<string, ZodType<unknown>>>,
   paramKeyEnum: z.ZodEnum<Record<string, string>> | null,
-): z.ZodType<{
-  [K in keyof InputType & string]?: ParameterValidationResult<InputType, K>;
-}> {
+  options: SchemaOptions = {},
+): z.ZodType<ValidationResults<InputType>> {
+  if (objectSchemasInProgress.has(inputSchema)) {
+    return recursiveValidationResultsSchema as unknown as z.ZodType<ValidationResults<InputType>>;
+  }
+  objectSchemasInProgress.add(inputSchema);
+  try {
+    return mkFieldValidationResultsSchema<InputType>(inputSchema, paramKeyEnum, options);
+  } finally {
+    objectSchemasInProgress.delete(inputSchema);
+  }
+}
+
+function mkFieldValidationResultsSchema<InputType extends Record<string, unknown>>(
+  inputSchema: z.ZodObject<Record<string, ZodType<unknown>>>,
+  paramKeyEnum: z.ZodEnum<Record<string, string>> | null,
+  options: SchemaOptions,
+): z.ZodType<ValidationResults<InputType>> {
   const shape = inputSchema.shape;
   const keys = Object.keys(shape) as (keyof InputType & string)[];
   if (keys.length === 0)
-    return z.object({}).strict() as unknown as z.ZodType<{
-      [K in keyof InputType & string]?: ParameterValidationResult<InputType, K>;
-    }>;
+    return z.object({}).strict() as unknown as z.ZodType<ValidationResults<InputType>>;
   const perKey: Partial<{
     [K in keyof InputType & string]: z.ZodType<ParameterValidationResult<InputType, K>>;
   }> = {};
@@ -237,20 +720,78 @@ export function mkValidationResultsSchema<InputType extends Record<string, unkno
     perKey[key] = mkParameterValidationResultSchema<InputType, InputType[typeof key], typeof key>(
       valueSchema,
       paramKeyEnum,
+      options,
     );
   }
   return atLeastOne(
     perKey as {
       [K in keyof InputType & string]: z.ZodType<ParameterValidationResult<InputType, K>>;
     },
-  ) as unknown as z.ZodType<{
-    [K in keyof InputType & string]?: ParameterValidationResult<InputType, K>;
-  }>;
+    options.compact,
+  ) as unknown as z.ZodType<ValidationResults<InputType>>;
+}
+
+/**
+ * Creates a Zod schema for InputNormalization: how the tool interpreted the input of an accepted call.
+ */
+export function mkInputNormalizationSchema<InputType>(
+  inputSchema: ZodType<InputType>,
+): z.ZodType<InputNormalization<InputType>> {
+  return z.object(inputNormalizationShape(inputSchema)).strict() as unknown as z.ZodType<
+    InputNormalization<InputType>
+  >;
 }
 
-export function mkToolCallSuccessSchema<OutputType>(
+function inputNormalizationShape<InputType>(inputSchema: ZodType<InputType>) {
+  const members =
+    inputSchema instanceof ZodObject
+      ? [inputSchema as z.ZodObject<Record<string, ZodType<unknown>>>]
+      : getObjectUnionMembers(inputSchema);
+  if (!members) {
+    return {
+      normalizedInput: inputSchema
+        .optional()
+        .describe('The input, normalized to a canonical form.'),
+    };
+  }
+  // For unions of objects, normalization refers to the fields of a single member
+  return {
+    normalizedInput: oneOf(members.map(member => member.partial().strict()))
+      .optional()
+      .describe(
+        'Fields that the tool normalized to a canonical form, with their normalized values.',
+      ),
+    inputNotes: oneOf(
+      members.map(member =>
+        z
+          .object(
+            Object.fromEntries(
+              Object.keys(member.shape).map(key => [key, nonEmptyArray(z.string()).optional()]),
+            ),
+          )
+          .strict(),
+      ),
+    )
+      .optional()
+      .describe('Freeform notes on how the tool interpreted individual fields.'),
+  };
+}
+
+function oneOf(schemas: ZodType<unknown>[]): ZodType<unknown> {
+  return schemas.length === 1
+    ? schemas[0]
+    : z.union(schemas as [ZodType<unknown>, ZodType<unknown>, ...ZodType<unknown>[]]);
+}
+
+/**
+ * Creates a Zod schema for ToolCallSuccess.
+ * If inputSchema is provided, the success may also report how the tool normalized the input.
+ */
+export function mkToolCallSuccessSchema<OutputType, InputType = never>(
   outputSchema: ZodType<OutputType>,
-): z.ZodType<ToolCallSuccess<OutputType>> {
+  inputSchema?: ZodType<InputType>,
+  options: SchemaOptions = {},
+): z.ZodType<ToolCallSuccess<OutputType, InputType>> {
   // Check if outputSchema is z.never() using instanceof.
   //
   // NOTE: There is a discrepancy between type-level and runtime checks:
@@ -268,8 +809,8 @@ export function mkToolCallSuccessSchema<OutputType>(
   const isNever = outputSchema instanceof ZodNever;
   const baseObject = {
     ok: z.literal(true),
-    feedback: feedbackSchema,
-    instructions: instructionsSchema,
+    ...(inputSchema ? inputNormalizationShape(inputSchema) : {}),
+    ...feedbackAndInstructionsShape(options),
   };
 
   // Check if outputSchema is a ZodObject
@@ -283,7 +824,9 @@ export function mkToolCallSuccessSchema<OutputType>(
   // 4. otherwise -> wrap in value field
   if (isNever || isEmptyObject) {
     // No value field - return base object only
-    return z.object(baseObject).strict() as unknown as z.ZodType<ToolCallSuccess<OutputType>>;
+    return z.object(baseObject).strict() as unknown as z.ZodType<
+      ToolCallSuccess<OutputType, InputType>
+    >;
   } else if (isObject) {
     // Object with keys - merge the object's shape directly into the result
     return z
@@ -291,7 +834,7 @@ export function mkToolCallSuccessSchema<OutputType>(
         ...baseObject,
         ...outputSchema.shape,
       })
-      .strict() as unknown as z.ZodType<ToolCallSuccess<OutputType>>;
+      .strict() as unknown as z.ZodType<ToolCallSuccess<OutputType, InputType>>;
   } else {
     // Other types - wrap in value field
     return z
@@ -299,45 +842,115 @@ export function mkToolCallSuccessSchema<OutputType>(
         ...baseObject,
         value: outputSchema,
       })
-      .strict() as unknown as z.ZodType<ToolCallSuccess<OutputType>>;
+      .strict() as unknown as z.ZodType<ToolCallSuccess<OutputType, InputType>>;
   }
 }
 
+const retryClassificationShape = {
+  retryable: z
+    .boolean()
+    .optional()
+    .describe(
+      'Whether the same call may succeed if repeated later. false means that the input has to change.',
+    ),
+  retryAfterMs: z
+    .number()
+    .optional()
+    .describe('How long to wait before repeating the call, in milliseconds.'),
+};
+
+export function mkRetryClassificationSchema(): z.ZodType<RetryClassification> {
+  return z.object(retryClassificationShape).strict();
+}
+
 export function mkToolCallFailureSchema<InputType extends Record<string, unknown>>(
-  validationResultsSchema: z.ZodType<{
-    [K in keyof InputType & string]?: ParameterValidationResult<InputType, K>;
-  }>,
+  validationResultsSchema: z.ZodType<ValidationResults<InputType>>,
+  options: SchemaOptions = {},
 ): z.ZodType<ToolCallFailure<InputType>> {
-  // Build common schema: ok: false & FeedbackAndInstructions
+  // Build common schema: ok: false & RetryClassification & FeedbackAndInstructions
   const commonSchema = z
     .object({
       ok: z.literal(false),
-      feedback: feedbackSchema,
-      instructions: instructionsSchema,
+      ...retryClassificationShape,
+      ...feedbackAndInstructionsShape(options),
     })
     .strict();
 
   // Build AtLeastOne union schema for validationResults/problems - tagged
-  const atLeastOneSchemaTagged = atLeastOneTagged({
-    validationResults: validationResultsSchema.describe(
-      'Validation feedback for individual parameters. At least one parameter must be present.',
-    ),
-    problems: problemsHighLevelSchema,
-  });
+  const atLeastOneSchemaTagged = atLeastOneTagged(
+    {
+      validationResults: validationResultsSchema.describe(
+        'Validation feedback for individual parameters. At least one parameter must be present.',
+      ),
+      problems: problemsHighLevelSchema,
+    },
+    options.compact,
+  );
 
   // Intersect: common & AtLeastOne union
   const commonSchemaTagged = tagObject(commonSchema);
   const resultTagged = intersectSchemas(commonSchemaTagged, atLeastOneSchemaTagged);
 
-  // Extract the final schema (result is always a union from intersectSchemas)
+  // Extract the final schema (a union, or a refined object in compact mode)
   return untag(resultTagged) as z.ZodType<ToolCallFailure<InputType>>;
 }
 
+/**
+ * Creates a Zod schema for ToolCallConfirmationRequired: the outcome of a tool call
+ * that was not executed because it needs a human confirmation first.
+ */
+export function mkToolCallConfirmationRequiredSchema(
+  options: SchemaOptions = {},
+): z.ZodType<ToolCallConfirmationRequired> {
+  return z
+    .object({
+      ok: z.literal(false),
+      requiresConfirmation: z
+        .object({
+          summary: z
+            .string()
+            .describe('Human-readable summary of what the tool call is going to do.'),
+          token: z
+            .string()
+            .describe('Opaque token that confirms this exact tool call once the user agrees.'),
+        })
+        .strict(),
+      ...feedbackAndInstructionsShape(options),
+    })
+    .strict() as z.ZodType<ToolCallConfirmationRequired>;
+}
+
 export function mkToolCallResultSchema<InputType extends Record<string, unknown>, OutputT>(
-  accepted: z.ZodType<ToolCallSuccess<OutputT>>,
+  accepted: z.ZodType<ToolCallSuccess<OutputT, InputType>>,
   rejected: z.ZodType<ToolCallFailure<InputType>>,
+  options: SchemaOptions = {},
 ): z.ZodType<ToolCallResult<InputType, OutputT>> {
-  return z.union([accepted, rejected]) as z.ZodType<ToolCallResult<InputType, OutputT>>;
+  return z.union([accepted, rejected, mkToolCallConfirmationRequiredSchema(options)]) as z.ZodType<
+    ToolCallResult<InputType, OutputT>
+  >;
+}
+
+/**
+ * Creates a Zod schema for ToolCallPending: the outcome of a tool call that started a long-running job.
+ */
+export function mkToolCallPendingSchema(options: SchemaOptions = {}): z.ZodType<ToolCallPending> {
+  return z
+    .object({
+      ok: z.literal('pending'),
+      jobId: z
+        .string()
+        .describe('Opaque identifier of the job. Pass it back to check on the job status.'),
+      pollAfterMs: z
+        .number()
+        .optional()
+        .describe('How long to wait before checking on the job again, in milliseconds.'),
+      progress: z
+        .number()
+        .optional()
+        .describe('Fraction of the job that has been completed so far, from 0 to 1.'),
+      ...feedbackAndInstructionsShape(options),
+    })
+    .strict() as z.ZodType<ToolCallPending>;
 }
 
 /**
@@ -356,20 +969,31 @@ function createKeyEnum(
  * Constructs a Zod schema for ToolCallResult that matches the TypeScript types
  * defined in tool2agent.ts.
  *
- * @param inputSchema - Zod schema for the tool input type (can be ZodObject for records or any ZodType for non-records)
- * @param outputSchema - Zod schema for the tool output type
+ * Schemas of other Standard Schema libraries are converted to Zod via JSON Schema, see {@link toZodSchema}.
+ *
+ * @param inputSchema - schema for the tool input type (can be ZodObject for records or any ZodType for non-records)
+ * @param outputSchema - schema for the tool output type
+ * @param options - e.g. the names of the tools that `relatedTools` may refer to
  * @returns Zod schema for ToolCallResult<InputType, OutputType>
  */
-export function mkTool2AgentSchema<S extends ZodType<unknown>, OutputType>(
-  inputSchema: S,
-  outputSchema: ZodType<OutputType>,
-): ZodType<ToolCallResult<z.infer<S>, OutputType>> {
-  type InputType = z.infer<S>;
+export function mkTool2AgentSchema<S extends AnySchema, OutputType>(
+  inputSchemaParam: S,
+  outputSchemaParam: ZodType<OutputType> | StandardSchemaV1<unknown, OutputType>,
+  options: SchemaOptions = {},
+): ZodType<ToolCallResult<InferSchemaOutput<S>, OutputType>> {
+  type InputType = InferSchemaOutput<S>;
+  const inputSchema = toZodSchema(inputSchemaParam);
+  const outputSchema = toZodSchema(outputSchemaParam, { io: 'output' });
 
-  // Check if inputSchema is a ZodObject (record case)
+  // Check if inputSchema is a ZodObject (record case), or a union of them
   const isRecord = inputSchema instanceof ZodObject;
+  const unionMembers = isRecord ? null : getObjectUnionMembers(inputSchema);
 
-  const accepted = mkToolCallSuccessSchema<OutputType>(outputSchema);
+  const accepted = mkToolCallSuccessSchema<OutputType, InputType & Record<string, unknown>>(
+    outputSchema,
+    inputSchema as ZodType<InputType & Record<string, unknown>>,
+    options,
+  );
 
   let rejected: z.ZodType<ToolCallFailure<InputType & Record<string, unknown>>>;
 
@@ -384,36 +1008,43 @@ export function mkTool2AgentSchema<S extends ZodType<unknown>, OutputType>(
     const validationResults = mkValidationResultsSchema<InputType & Record<string, unknown>>(
       inputSchema as z.ZodObject<Record<string, ZodType<unknown>>>,
       paramKeyEnum,
+      options,
     );
-    rejected = mkToolCallFailureSchema<InputType & Record<string, unknown>>(validationResults);
-  } else {
-    // Non-record case: use ValueFailureFeedback directly
-    // For non-records, FailureFeedback becomes ValueFailureFeedback<InputType>
-    // ToolCallFailure<InputType> = { ok: false } & ValueFailureFeedback<InputType> & FeedbackAndInstructions
-    // ValueFailureFeedback already includes feedback and instructions, so we just need to add ok: false
-    const valueFailureFeedbackSchema = mkValueFailureFeedbackSchema<InputType>(
-      inputSchema as ZodType<InputType>,
+    rejected = mkToolCallFailureSchema<InputType & Record<string, unknown>>(
+      validationResults,
+      options,
+    );
+  } else if (unionMembers) {
+    // Union of records: field-based validation for the fields of any single member
+    const validationResults = mkUnionValidationResultsSchema(inputSchema, unionMembers, options);
+    rejected = mkToolCallFailureSchema<InputType & Record<string, unknown>>(
+      validationResults as z.ZodType<ValidationResults<InputType & Record<string, unknown>>>,
+      options,
     );
+  } else {
+    // Non-record case: use ArrayFailureFeedback for arrays, and ValueFailureFeedback otherwise
+    // ToolCallFailure<InputType> = { ok: false } & (Array|Value)FailureFeedback<InputType> & FeedbackAndInstructions
+    // Both already include feedback and instructions, so we just need to add ok: false
+    const failureFeedbackTagged =
+      inputSchema instanceof z.ZodArray
+        ? // instanceof narrows the element to the core $ZodType, the generators take classic ZodTypes
+          mkArrayFailureFeedbackSchemaTagged(
+            inputSchema as unknown as z.ZodArray<ZodType<unknown>>,
+            options,
+          )
+        : mkValueFailureFeedbackSchemaTagged(inputSchema, options);
 
-    // mkValueFailureFeedbackSchema returns a union (from intersectSchemas), so we need to
-    // intersect it with the ok: false field using tagged schemas
+    // Intersect the tagged feedback with the ok: false field
     const okSchema = tagObject(
       z
         .object({
           ok: z.literal(false),
+          ...retryClassificationShape,
         })
         .strict(),
     );
 
-    // Wrap the union in a tagged schema for intersection
-    // mkValueFailureFeedbackSchema always returns a union from intersectSchemas
-    const valueFfUnion = valueFailureFeedbackSchema as z.ZodUnion<
-      [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]
-    >;
-    const valueFfTagged: TaggedSchema<z.ZodUnion<[z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]>> =
-      tagUnion(valueFfUnion, valueFfUnion.options);
-
-    const rejectedTagged = intersectSchemas(okSchema, valueFfTagged);
+    const rejectedTagged = intersectSchemas(okSchema, failureFeedbackTagged);
     rejected = untag(rejectedTagged) as z.ZodType<
       ToolCallFailure<InputType & Record<string, unknown>>
     >;
@@ -422,5 +1053,128 @@ export function mkTool2AgentSchema<S extends ZodType<unknown>, OutputType>(
   return mkToolCallResultSchema<InputType & Record<string, unknown>, OutputType>(
     accepted,
     rejected,
+    options,
   ) as ZodType<ToolCallResult<InputType, OutputType>>;
 }
+
+/**
+ * Constructs a Zod schema for AsyncToolCallResult: the same outcomes as {@link mkTool2AgentSchema},
+ * plus the pending outcome for tools that start long-running jobs.
+ * Accepts schemas of other Standard Schema libraries, like {@link mkTool2AgentSchema}.
+ *
+ * @param inputSchema - schema for the tool input type
+ * @param outputSchema - schema for the tool output type
+ * @param options - see {@link mkTool2AgentSchema}
+ * @returns Zod schema for AsyncToolCallResult<InputType, OutputType>
+ */
+export function mkAsyncTool2AgentSchema<S extends AnySchema, OutputType>(
+  inputSchema: S,
+  outputSchema: ZodType<OutputType> | StandardSchemaV1<unknown, OutputType>,
+  options: SchemaOptions = {},
+): ZodType<AsyncToolCallResult<InferSchemaOutput<S>, OutputType>> {
+  return z.union([
+    mkTool2AgentSchema(inputSchema, outputSchema, options),
+    mkToolCallPendingSchema(options),
+  ]) as ZodType<AsyncToolCallResult<InferSchemaOutput<S>, OutputType>>;
+}
+
+/**
+ * Creates a Zod schema for ToolCallProgress: a preliminary update of a streaming tool call.
+ *
+ * @param progressSchema - Zod schema for the tool-specific progress update
+ */
+export function mkToolCallProgressSchema<ProgressType>(
+  progressSchema: ZodType<ProgressType>,
+): z.ZodType<ToolCallProgress<ProgressType>> {
+  return z
+    .object({
+      ok: z.literal('progress'),
+      update: progressSchema.describe(
+        'Progress of the tool call so far. The call is not complete yet.',
+      ),
+    })
+    .strict() as z.ZodType<ToolCallProgress<ProgressType>>;
+}
+
+/**
+ * Constructs a Zod schema for the items of a streaming tool call: the same outcomes as {@link mkTool2AgentSchema},
+ * plus progress updates.
+ * Accepts schemas of other Standard Schema libraries, like {@link mkTool2AgentSchema}.
+ *
+ * @param inputSchema - schema for the tool input type
+ * @param outputSchema - schema for the tool output type
+ * @param progressSchema - schema for the tool-specific progress update
+ * @param options - see {@link mkTool2AgentSchema}
+ * @returns Zod schema for StreamingToolCallResult<InputType, OutputType, ProgressType>
+ */
+export function mkStreamingTool2AgentSchema<S extends AnySchema, OutputType, ProgressType>(
+  inputSchema: S,
+  outputSchema: ZodType<OutputType> | StandardSchemaV1<unknown, OutputType>,
+  progressSchema: ZodType<ProgressType> | StandardSchemaV1<unknown, ProgressType>,
+  options: SchemaOptions = {},
+): ZodType<StreamingToolCallResult<InferSchemaOutput<S>, OutputType, ProgressType>> {
+  return z.union([
+    mkTool2AgentSchema(inputSchema, outputSchema, options),
+    mkToolCallProgressSchema(toZodSchema(progressSchema, { io: 'output' })),
+  ]) as ZodType<StreamingToolCallResult<InferSchemaOutput<S>, OutputType, ProgressType>>;
+}
+
+/**
+ * Creates a Zod schema for ToolCallPartialSuccess: per-item outcomes of a batch tool call.
+ *
+ * @param itemInputSchema - schema for a single item of the batch
+ * @param itemOutputSchema - schema for the output produced for a single item
+ * @param options - see {@link mkTool2AgentSchema}
+ */
+export function mkToolCallPartialSuccessSchema<S extends AnySchema, ItemOutputType>(
+  itemInputSchema: S,
+  itemOutputSchema: ZodType<ItemOutputType> | StandardSchemaV1<unknown, ItemOutputType>,
+  options: SchemaOptions = {},
+): z.ZodType<ToolCallPartialSuccess<InferSchemaOutput<S>, ItemOutputType>> {
+  return z
+    .object({
+      ok: z.literal('partial'),
+      items: nonEmptyArray(mkTool2AgentSchema(itemInputSchema, itemOutputSchema, options)).describe(
+        'Per-item outcomes, in the same order as the items of the input. Cannot be empty.',
+      ),
+      ...feedbackAndInstructionsShape(options),
+    })
+    .strict() as unknown as z.ZodType<ToolCallPartialSuccess<InferSchemaOutput<S>, ItemOutputType>>;
+}
+
+/**
+ * Constructs a Zod schema for BatchToolCallResult: outcomes of a tool call that takes a batch of items.
+ * Accepts schemas of other Standard Schema libraries, like {@link mkTool2AgentSchema}.
+ *
+ * @param inputSchema - schema for the tool input type (the whole batch)
+ * @param itemInputSchema - schema for a single item of the batch
+ * @param itemOutputSchema - schema for the output produced for a single item
+ * @param options - see {@link mkTool2AgentSchema}
+ * @returns Zod schema for BatchToolCallResult<InputType, ItemInputType, ItemOutputType>
+ */
+export function mkBatchTool2AgentSchema<
+  S extends AnySchema,
+  ItemS extends AnySchema,
+  ItemOutputType,
+>(
+  inputSchema: S,
+  itemInputSchema: ItemS,
+  itemOutputSchema: ZodType<ItemOutputType> | StandardSchemaV1<unknown, ItemOutputType>,
+  options: SchemaOptions = {},
+): ZodType<BatchToolCallResult<InferSchemaOutput<S>, InferSchemaOutput<ItemS>, ItemOutputType>> {
+  const itemInput = toZodSchema(itemInputSchema);
+  const itemOutput = toZodSchema(itemOutputSchema, { io: 'output' });
+  const batchOutputSchema = z
+    .object({
+      items: z
+        .array(mkToolCallSuccessSchema(itemOutput, itemInput, options))
+        .describe('Per-item outcomes, in the same order as the items of the input.'),
+    })
+    .strict();
+  return z.union([
+    mkTool2AgentSchema(inputSchema, batchOutputSchema, options),
+    mkToolCallPartialSuccessSchema(itemInput, itemOutput, options),
+  ]) as unknown as ZodType<
+    BatchToolCallResult<InferSchemaOutput<S>, InferSchemaOutput<ItemS>, ItemOutputType>
+  >;
+}
@@ -0,0 +1,114 @@
+import { type ZodType, z } from 'zod';
+import type { JsonSchema } from '@tool2agent/types';
+import { fromJsonSchema } from './json-schema-import.js';
+
+/**
+ * The Standard Schema interface (https://standardschema.dev), implemented by Zod, Valibot, ArkType and others.
+ * Copied from `@standard-schema/spec`, as recommended by the spec.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': StandardSchemaV1.Props<Input, Output>;
+}
+
+// The namespace mirrors the spec, so that its types can be used interchangeably
+// eslint-disable-next-line @typescript-eslint/no-namespace
+export declare namespace StandardSchemaV1 {
+  export interface Props<Input = unknown, Output = Input> {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => Result<Output> | Promise<Result<Output>>;
+    readonly types?: Types<Input, Output> | undefined;
+  }
+
+  export type Result<Output> = SuccessResult<Output> | FailureResult;
+
+  export interface SuccessResult<Output> {
+    readonly value: Output;
+    readonly issues?: undefined;
+  }
+
+  export interface FailureResult {
+    readonly issues: ReadonlyArray<Issue>;
+  }
+
+  export interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+  }
+
+  export interface PathSegment {
+    readonly key: PropertyKey;
+  }
+
+  export interface Types<Input = unknown, Output = Input> {
+    readonly input: Input;
+    readonly output: Output;
+  }
+
+  export type InferInput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema['~standard']['types']
+  >['input'];
+
+  export type InferOutput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema['~standard']['types']
+  >['output'];
+}
+
+/** A Zod schema, or a schema of any other Standard Schema library. */
+export type AnySchema = ZodType<unknown> | StandardSchemaV1;
+
+/** The type of values that pass the schema. */
+export type InferSchemaOutput<S extends AnySchema> =
+  S extends ZodType<unknown> ? z.infer<S> : StandardSchemaV1.InferOutput<S>;
+
+// Libraries that implement the Standard JSON Schema extension expose a converter next to `validate`
+type StandardJsonSchemaConverter = {
+  input?: (options: { target: string }) => JsonSchema;
+  output?: (options: { target: string }) => JsonSchema;
+};
+
+export function isZodSchema(schema: unknown): schema is ZodType<unknown> {
+  return schema instanceof z.ZodType;
+}
+
+// JSON Schema of a non-Zod schema, as provided by the library
+function libraryJsonSchema(schema: StandardSchemaV1, io: 'input' | 'output'): JsonSchema | null {
+  const standard = schema['~standard'] as StandardSchemaV1.Props & {
+    jsonSchema?: StandardJsonSchemaConverter;
+  };
+  const converter = standard.jsonSchema?.[io];
+  if (converter) return converter({ target: 'draft-2020-12' });
+  // ArkType
+  const toJsonSchema = (schema as { toJsonSchema?: () => JsonSchema }).toJsonSchema;
+  if (typeof toJsonSchema === 'function') return toJsonSchema.call(schema);
+  return null;
+}
+
+/**
+ * Converts a schema of any Standard Schema library to Zod, so that tool2agent schemas can be generated from it.
+ * Zod schemas are returned as is. Other schemas go through JSON Schema:
+ * it is taken from `options.jsonSchema`, from the Standard JSON Schema converter of the library, or from ArkType's `toJsonSchema()`.
+ * The result only checks what the JSON Schema describes: refinements and transforms of the library are not applied,
+ * so validate the values with the original schema.
+ * @param schema - the schema to convert
+ * @param options.jsonSchema - JSON Schema of the schema, for libraries that can not produce it themselves (e.g. Valibot via `@valibot/to-json-schema`)
+ * @param options.io - whether the schema describes the input or the output side of the library's transforms. Defaults to `input`.
+ * @returns a Zod schema
+ * @throws Error if the JSON Schema of a non-Zod schema is not available, or if it can not be converted
+ * @example
+ * const inputSchema = toZodSchema(type({ city: 'string' })); // ArkType
+ * const resultSchema = mkTool2AgentSchema(inputSchema, outputSchema);
+ */
+export function toZodSchema<S extends AnySchema>(
+  schema: S,
+  options: { jsonSchema?: JsonSchema; io?: 'input' | 'output' } = {},
+): ZodType<InferSchemaOutput<S>> {
+  if (isZodSchema(schema)) return schema as ZodType<InferSchemaOutput<S>>;
+  const jsonSchema = options.jsonSchema ?? libraryJsonSchema(schema, options.io ?? 'input');
+  if (!jsonSchema) {
+    throw new Error(
+      `Can not get a JSON Schema of a ${schema['~standard'].vendor} schema: pass it as options.jsonSchema`,
+    );
+  }
+  return fromJsonSchema<InferSchemaOutput<S>>(jsonSchema);
+}
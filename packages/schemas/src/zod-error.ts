@@ -0,0 +1,124 @@
+import { type ZodType, z } from 'zod';
+import type { NonEmptyArray, ToolCallFailure } from '@tool2agent/types';
+import { getObjectUnionMembers } from './schema-tools.js';
+import {
+  toZodSchema,
+  type AnySchema,
+  type InferSchemaOutput,
+  type StandardSchemaV1,
+} from './standard-schema.js';
+
+type FieldFailure = { valid: false; problems: NonEmptyArray<string>; allowedValues?: unknown[] };
+
+// Zod and Standard Schema issues, reduced to what the failure is built from
+type InputIssue = {
+  message: string;
+  path: PropertyKey[];
+  // Values of enum and literal issues
+  values?: unknown[];
+};
+
+// `passengers.0.name: Required`, or just the message for issues at the given depth
+function issueMessage(issue: InputIssue, depth: number): string {
+  const rest = issue.path.slice(depth).map(String);
+  return rest.length > 0 ? `${rest.join('.')}: ${issue.message}` : issue.message;
+}
+
+// Values of enum and literal issues that refer to the value itself, not to something nested in it
+function allowedValuesOf(issue: InputIssue, depth: number): unknown[] | undefined {
+  return issue.path.length === depth ? issue.values : undefined;
+}
+
+function issuesToToolCallFailure<InputType>(
+  inputSchema: ZodType<unknown>,
+  issues: InputIssue[],
+): ToolCallFailure<InputType> {
+  const isRecord =
+    inputSchema instanceof z.ZodObject || getObjectUnionMembers(inputSchema) !== null;
+  const problems: string[] = [];
+  const validationResults: Record<string, FieldFailure> = {};
+  let allowedValues: unknown[] | undefined;
+
+  for (const issue of issues) {
+    const key = issue.path[0];
+    if (!isRecord || typeof key !== 'string') {
+      problems.push(issueMessage(issue, 0));
+      allowedValues ??= allowedValuesOf(issue, 0);
+      continue;
+    }
+    const fieldAllowedValues = allowedValuesOf(issue, 1);
+    const field = validationResults[key];
+    if (field) {
+      field.problems.push(issueMessage(issue, 1));
+      field.allowedValues ??= fieldAllowedValues;
+    } else {
+      validationResults[key] = {
+        valid: false,
+        problems: [issueMessage(issue, 1)],
+        ...(fieldAllowedValues ? { allowedValues: fieldAllowedValues } : {}),
+      };
+    }
+  }
+
+  const failure: Record<string, unknown> = { ok: false };
+  if (Object.keys(validationResults).length > 0) failure.validationResults = validationResults;
+  // A failed validation always has at least one issue
+  if (problems.length > 0 || !failure.validationResults) {
+    failure.problems = problems.length > 0 ? problems : ['Invalid input'];
+  }
+  if (!isRecord && allowedValues) failure.allowedValues = allowedValues;
+  return failure as ToolCallFailure<InputType>;
+}
+
+/**
+ * Converts a failed parse of the tool input into a tool call failure.
+ * For record inputs (objects and unions of objects), issues are grouped by top-level key
+ * into `validationResults`, nested issues keep the rest of their path in the message.
+ * Issues at the root of the input (e.g. unknown keys) become `problems`.
+ * Enum and literal issues provide `allowedValues`.
+ * @param inputSchema - the schema the input was parsed with
+ * @param error - the error of the failed parse
+ * @returns the failure to return to the agent
+ * @example
+ * const parsed = inputSchema.safeParse(input);
+ * if (!parsed.success) return zodErrorToToolCallFailure(inputSchema, parsed.error);
+ * // => { ok: false, validationResults: { cabin: { valid: false, problems: ['Invalid option: ...'], allowedValues: ['economy', 'business'] } } }
+ */
+export function zodErrorToToolCallFailure<S extends ZodType<unknown>>(
+  inputSchema: S,
+  error: z.core.$ZodError,
+): ToolCallFailure<z.infer<S>> {
+  return issuesToToolCallFailure(
+    inputSchema,
+    error.issues.map(issue => ({
+      message: issue.message,
+      path: issue.path,
+      values: issue.code === 'invalid_value' ? issue.values : undefined,
+    })),
+  );
+}
+
+/**
+ * Converts the issues of a failed Standard Schema validation of the tool input into a tool call failure,
+ * same as {@link zodErrorToToolCallFailure}. Standard Schema issues do not carry allowed values.
+ * @param inputSchema - the schema the input was validated with
+ * @param issues - the issues of the failed validation
+ * @returns the failure to return to the agent
+ * @example
+ * const result = await inputSchema['~standard'].validate(input);
+ * if (result.issues) return standardIssuesToToolCallFailure(inputSchema, result.issues);
+ */
+export function standardIssuesToToolCallFailure<S extends AnySchema>(
+  inputSchema: S,
+  issues: ReadonlyArray<StandardSchemaV1.Issue>,
+): ToolCallFailure<InferSchemaOutput<S>> {
+  return issuesToToolCallFailure(
+    toZodSchema(inputSchema),
+    issues.map(issue => ({
+      message: issue.message,
+      path: (issue.path ?? []).map(segment =>
+        typeof segment === 'object' ? segment.key : segment,
+      ),
+    })),
+  );
+}
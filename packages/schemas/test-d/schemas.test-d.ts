@@ -2,22 +2,54 @@ import { type Expect, type Equal } from './expect.js';
 import {
   mkFeedbackAndInstructionsSchema,
   mkAcceptableValuesSchema,
+  mkAnnotatedSuggestionSchema,
   mkParameterValidationFailureReasonsSchema,
   mkParameterValidationResultSchema,
   mkValidationResultsSchema,
   mkToolCallSuccessSchema,
+  mkInputNormalizationSchema,
   mkToolCallFailureSchema,
   mkToolCallResultSchema,
   mkTool2AgentSchema,
+  mkArrayFailureFeedbackSchema,
+  mkToolCallPendingSchema,
+  mkToolCallConfirmationRequiredSchema,
+  mkRetryClassificationSchema,
+  mkProblemSchema,
+  mkJsonSchemaSchema,
+  mkToolReferenceSchema,
+  mkInstructionSchema,
+  mkItemValidationResultSchema,
+  mkAsyncTool2AgentSchema,
+  mkStreamingTool2AgentSchema,
+  mkToolCallPartialSuccessSchema,
+  mkBatchTool2AgentSchema,
+  zodErrorToToolCallFailure,
+  type StandardSchemaV1,
 } from '../src/index.js';
 import type {
   FeedbackAndInstructions,
   AcceptableValues,
+  AnnotatedSuggestion,
   ParameterValidationFailureReasons,
   ParameterValidationResult,
   ToolCallSuccess,
+  InputNormalization,
   ToolCallFailure,
+  ArrayFailureFeedback,
   ToolCallResult,
+  ToolCallPending,
+  ToolCallConfirmationRequired,
+  RetryClassification,
+  Problem,
+  JsonSchema,
+  ToolReference,
+  Instruction,
+  ItemValidationResult,
+  AsyncToolCallResult,
+  StreamingToolCallResult,
+  ToolCallPartialSuccess,
+  BatchToolCallResult,
 } from '@tool2agent/types';
 import { z } from 'zod';
 
@@ -55,6 +87,12 @@ const acceptableValuesSchema = mkAcceptableValuesSchema(z.string());
 type InferredAcceptableValues = z.infer<typeof acceptableValuesSchema>;
 type _TestAcceptableValues1 = Expect<Equal<InferredAcceptableValues, AcceptableValues<string>>>;
 
+const annotatedSuggestionSchema = mkAnnotatedSuggestionSchema(z.number());
+type InferredAnnotatedSuggestion = z.infer<typeof annotatedSuggestionSchema>;
+type _TestAnnotatedSuggestion1 = Expect<
+  Equal<InferredAnnotatedSuggestion, AnnotatedSuggestion<number>>
+>;
+
 // ==================== ParameterValidationFailureReasons Schema Tests ====================
 const parameterValidationFailureReasonsSchema =
   mkParameterValidationFailureReasonsSchema<TestInputType>(paramKeyEnum);
@@ -98,6 +136,18 @@ type _TestToolCallSuccess1 = Expect<
 >;
 
 // Test case: when outputSchema is z.never(), value field should be omitted
+const toolCallSuccessWithInputSchema = mkToolCallSuccessSchema(testOutputSchema, testInputSchema);
+type InferredToolCallSuccessWithInput = z.infer<typeof toolCallSuccessWithInputSchema>;
+type _TestToolCallSuccessWithInput1 = Expect<
+  Equal<InferredToolCallSuccessWithInput, ToolCallSuccess<TestOutputType, TestInputType>>
+>;
+
+const inputNormalizationSchema = mkInputNormalizationSchema(testInputSchema);
+type InferredInputNormalization = z.infer<typeof inputNormalizationSchema>;
+type _TestInputNormalization1 = Expect<
+  Equal<InferredInputNormalization, InputNormalization<TestInputType>>
+>;
+
 const toolCallSuccessNeverSchema = mkToolCallSuccessSchema<never>(z.never());
 type InferredToolCallSuccessNever = z.infer<typeof toolCallSuccessNeverSchema>;
 type _TestToolCallSuccessNever1 = Expect<
@@ -126,6 +176,15 @@ type _TestTool2AgentResult1 = Expect<
   Equal<InferredTool2AgentResult, ToolCallResult<TestInputType, TestOutputType>>
 >;
 
+// Compact mode only changes the runtime representation
+const compactTool2AgentSchema = mkTool2AgentSchema(testInputSchema, testOutputSchema, {
+  compact: true,
+});
+type InferredCompactTool2AgentResult = z.infer<typeof compactTool2AgentSchema>;
+type _TestCompactTool2AgentResult1 = Expect<
+  Equal<InferredCompactTool2AgentResult, ToolCallResult<TestInputType, TestOutputType>>
+>;
+
 // ==================== Empty Input Schema Tests ====================
 const emptyInputSchema = z.object({});
 type EmptyInputType = z.infer<typeof emptyInputSchema>;
@@ -163,6 +222,12 @@ type _TestArrayTool2AgentResult1 = Expect<
   Equal<InferredArrayTool2AgentResult, ToolCallResult<ArrayInputType, string>>
 >;
 
+const arrayFailureFeedbackSchema = mkArrayFailureFeedbackSchema(arrayInputSchema);
+type InferredArrayFailureFeedback = z.infer<typeof arrayFailureFeedbackSchema>;
+type _TestArrayFailureFeedback1 = Expect<
+  Equal<InferredArrayFailureFeedback, ArrayFailureFeedback<ArrayInputType>>
+>;
+
 // Test with union input (non-record)
 const unionInputSchema = z.union([z.string(), z.number()]);
 type UnionInputType = z.infer<typeof unionInputSchema>;
@@ -171,3 +236,129 @@ type InferredUnionTool2AgentResult = z.infer<typeof unionTool2AgentSchema>;
 type _TestUnionTool2AgentResult1 = Expect<
   Equal<InferredUnionTool2AgentResult, ToolCallResult<UnionInputType, boolean>>
 >;
+
+// Test with discriminated union input (union of records)
+const travelInputSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('flight'), from: z.string() }),
+  z.object({ kind: z.literal('hotel'), city: z.string() }),
+]);
+type TravelInputType = z.infer<typeof travelInputSchema>;
+const travelTool2AgentSchema = mkTool2AgentSchema(travelInputSchema, z.boolean());
+type InferredTravelTool2AgentResult = z.infer<typeof travelTool2AgentSchema>;
+type _TestTravelTool2AgentResult1 = Expect<
+  Equal<InferredTravelTool2AgentResult, ToolCallResult<TravelInputType, boolean>>
+>;
+
+// ==================== Nested Validation Results Tests ====================
+const tagSchema = z.string();
+const itemValidationResultSchema = mkItemValidationResultSchema(tagSchema);
+type InferredItemValidationResult = z.infer<typeof itemValidationResultSchema>;
+type _TestItemValidationResult1 = Expect<
+  Equal<InferredItemValidationResult, ItemValidationResult<string>>
+>;
+
+// ==================== Problem Schema Tests ====================
+const problemSchema = mkProblemSchema();
+type InferredProblem = z.infer<typeof problemSchema>;
+type _TestProblem1 = Expect<Equal<InferredProblem, Problem>>;
+
+// ==================== Retry Classification Schema Tests ====================
+const retryClassificationSchema = mkRetryClassificationSchema();
+type InferredRetryClassification = z.infer<typeof retryClassificationSchema>;
+type _TestRetryClassification1 = Expect<Equal<InferredRetryClassification, RetryClassification>>;
+
+// ==================== JSON Schema Tests ====================
+const jsonSchemaSchema = mkJsonSchemaSchema();
+type InferredJsonSchema = z.infer<typeof jsonSchemaSchema>;
+type _TestJsonSchema1 = Expect<Equal<InferredJsonSchema, JsonSchema>>;
+
+// ==================== Tool Reference Schema Tests ====================
+const toolReferenceSchema = mkToolReferenceSchema({ toolNames: ['search_flights'] });
+type InferredToolReference = z.infer<typeof toolReferenceSchema>;
+type _TestToolReference1 = Expect<Equal<InferredToolReference, ToolReference>>;
+
+// ==================== Instruction Schema Tests ====================
+const instructionSchema = mkInstructionSchema();
+type InferredInstruction = z.infer<typeof instructionSchema>;
+type _TestInstruction1 = Expect<Equal<InferredInstruction, Instruction>>;
+
+// ==================== Confirmation Schema Tests ====================
+const confirmationRequiredSchema = mkToolCallConfirmationRequiredSchema();
+type InferredConfirmationRequired = z.infer<typeof confirmationRequiredSchema>;
+type _TestConfirmationRequired1 = Expect<
+  Equal<InferredConfirmationRequired, ToolCallConfirmationRequired>
+>;
+
+// ==================== Pending Schema Tests ====================
+const toolCallPendingSchema = mkToolCallPendingSchema();
+type InferredToolCallPending = z.infer<typeof toolCallPendingSchema>;
+type _TestToolCallPending1 = Expect<Equal<InferredToolCallPending, ToolCallPending>>;
+
+const asyncTool2AgentSchema = mkAsyncTool2AgentSchema(testInputSchema, testOutputSchema);
+type InferredAsyncTool2AgentResult = z.infer<typeof asyncTool2AgentSchema>;
+type _TestAsyncTool2AgentResult1 = Expect<
+  Equal<InferredAsyncTool2AgentResult, AsyncToolCallResult<TestInputType, TestOutputType>>
+>;
+
+// ==================== Streaming Schema Tests ====================
+const streamingTool2AgentSchema = mkStreamingTool2AgentSchema(
+  testInputSchema,
+  testOutputSchema,
+  z.object({ checked: z.number() }),
+);
+type InferredStreamingTool2AgentResult = z.infer<typeof streamingTool2AgentSchema>;
+type _TestStreamingTool2AgentResult1 = Expect<
+  Equal<
+    InferredStreamingTool2AgentResult,
+    StreamingToolCallResult<TestInputType, TestOutputType, { checked: number }>
+  >
+>;
+
+// ==================== Batch Schema Tests ====================
+const seatSchema = z.object({ row: z.number(), letter: z.string() });
+type SeatType = z.infer<typeof seatSchema>;
+const seatBookingSchema = z.object({ bookingId: z.string() });
+type SeatBookingType = z.infer<typeof seatBookingSchema>;
+const seatsInputSchema = z.object({ seats: z.array(seatSchema) });
+type SeatsInputType = z.infer<typeof seatsInputSchema>;
+
+const partialSuccessSchema = mkToolCallPartialSuccessSchema(seatSchema, seatBookingSchema);
+type InferredPartialSuccess = z.infer<typeof partialSuccessSchema>;
+type _TestPartialSuccess1 = Expect<
+  Equal<InferredPartialSuccess, ToolCallPartialSuccess<SeatType, SeatBookingType>>
+>;
+
+const batchTool2AgentSchema = mkBatchTool2AgentSchema(
+  seatsInputSchema,
+  seatSchema,
+  seatBookingSchema,
+);
+type InferredBatchTool2AgentResult = z.infer<typeof batchTool2AgentSchema>;
+type _TestBatchTool2AgentResult1 = Expect<
+  Equal<
+    InferredBatchTool2AgentResult,
+    BatchToolCallResult<SeatsInputType, SeatType, SeatBookingType>
+  >
+>;
+
+// ==================== Zod Error Conversion Tests ====================
+const parsedInput = testInputSchema.safeParse({});
+if (!parsedInput.success) {
+  const failure = zodErrorToToolCallFailure(testInputSchema, parsedInput.error);
+  type _TestZodErrorFailure1 = Expect<Equal<typeof failure, ToolCallFailure<TestInputType>>>;
+}
+
+// ==================== Standard Schema Tests ====================
+declare const standardInputSchema: StandardSchemaV1<unknown, TestInputType>;
+const standardTool2AgentSchema = mkTool2AgentSchema(standardInputSchema, testOutputSchema);
+type InferredStandardTool2AgentResult = z.infer<typeof standardTool2AgentSchema>;
+type _TestStandardTool2AgentResult1 = Expect<
+  Equal<InferredStandardTool2AgentResult, ToolCallResult<TestInputType, TestOutputType>>
+>;
+
+declare const standardOutputSchema: StandardSchemaV1<unknown, TestOutputType>;
+const standardOutputTool2AgentSchema = mkTool2AgentSchema(testInputSchema, standardOutputSchema);
+type InferredStandardOutputTool2AgentResult = z.infer<typeof standardOutputTool2AgentSchema>;
+type _TestStandardTool2AgentResult2 = Expect<
+  Equal<InferredStandardOutputTool2AgentResult, ToolCallResult<TestInputType, TestOutputType>>
+>;
@@ -0,0 +1,195 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+
+import { exportJsonSchema, mkTool2AgentSchema, type JsonSchemaLoss } from '../src/index.js';
+
+const inputSchema = z.object({ name: z.string(), age: z.number().int().optional() });
+const outputSchema = z.object({ id: z.string() });
+const toolSchema = mkTool2AgentSchema(inputSchema, outputSchema);
+
+const keywords = (losses: JsonSchemaLoss[]) => new Set(losses.map(loss => loss.keyword));
+
+// Every subschema of the document, with its JSON Pointer
+function* subschemas(node: unknown, path = ''): Generator<[string, Record<string, unknown>]> {
+  if (typeof node !== 'object' || node === null) return;
+  if (Array.isArray(node)) {
+    for (const [i, item] of node.entries()) yield* subschemas(item, `${path}/${i}`);
+    return;
+  }
+  const schema = node as Record<string, unknown>;
+  yield [path, schema];
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'properties' || key === '$defs') {
+      for (const [name, property] of Object.entries(value as object)) {
+        yield* subschemas(property, `${path}/${key}/${name}`);
+      }
+    } else if (['items', 'additionalProperties', 'anyOf', 'oneOf', 'allOf'].includes(key)) {
+      yield* subschemas(value, `${path}/${key}`);
+    }
+  }
+}
+
+test('exportJsonSchema', async t => {
+  await t.test('draft-2020-12 is exact', () => {
+    const { jsonSchema, losses } = exportJsonSchema(toolSchema);
+    assert.deepEqual(jsonSchema, z.toJSONSchema(toolSchema));
+    assert.deepEqual(losses, []);
+  });
+
+  await t.test('anthropic reports non-object root', () => {
+    assert.deepEqual(exportJsonSchema(inputSchema, 'anthropic').losses, []);
+
+    const { jsonSchema, losses } = exportJsonSchema(toolSchema, 'anthropic');
+    assert.deepEqual(jsonSchema, z.toJSONSchema(toolSchema));
+    assert.deepEqual(losses, [
+      {
+        path: '',
+        keyword: 'type',
+        message: 'The root schema must be an object, the provider may reject this schema',
+      },
+    ]);
+  });
+
+  await t.test('openai-strict makes optional properties required and nullable', () => {
+    const { jsonSchema, losses } = exportJsonSchema(inputSchema, 'openai-strict');
+    assert.deepEqual(jsonSchema, {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        age: {
+          type: ['integer', 'null'],
+          minimum: Number.MIN_SAFE_INTEGER,
+          maximum: Number.MAX_SAFE_INTEGER,
+        },
+      },
+      required: ['name', 'age'],
+      additionalProperties: false,
+    });
+    assert.deepEqual(losses, [
+      {
+        path: '/properties/age',
+        keyword: 'required',
+        message: 'Optional property is required and nullable, null is sent instead of omitting it',
+      },
+    ]);
+  });
+
+  await t.test('openai-strict closes every object', () => {
+    const { jsonSchema, losses } = exportJsonSchema(toolSchema, 'openai-strict');
+    assert.equal(jsonSchema.$schema, undefined);
+    for (const [path, schema] of subschemas(jsonSchema)) {
+      if (schema.type !== 'object') continue;
+      assert.equal(schema.additionalProperties, false, path);
+      assert.deepEqual(schema.required, Object.keys(schema.properties as object), path);
+    }
+    // validationResults is a record, which strict mode can not express
+    assert.ok(keywords(losses).has('additionalProperties'));
+    assert.ok(losses.some(loss => loss.path === '' && loss.keyword === 'type'));
+  });
+
+  await t.test('openai-strict rewrites unsupported keywords', () => {
+    const schema = z.object({
+      tag: z.string().min(1).max(5),
+      pair: z.tuple([z.string(), z.number()]),
+      any: z.unknown(),
+    });
+    const { jsonSchema, losses } = exportJsonSchema(schema, 'openai-strict');
+    const properties = jsonSchema.properties as Record<string, Record<string, unknown>>;
+    assert.deepEqual(properties.tag, { type: 'string' });
+    assert.equal(properties.pair.prefixItems, undefined);
+    assert.deepEqual(properties.any.anyOf, [
+      { type: 'string' },
+      { type: 'number' },
+      { type: 'boolean' },
+      { type: 'null' },
+    ]);
+    assert.deepEqual(keywords(losses), new Set(['minLength', 'maxLength', 'prefixItems', 'type']));
+  });
+
+  await t.test('gemini uses the OpenAPI subset', () => {
+    const schema = z.object({
+      kind: z.literal('flight'),
+      seats: z.number().int().positive().nullable(),
+      note: z.string().optional(),
+      extra: z.record(z.string(), z.string()),
+    });
+    const { jsonSchema, losses } = exportJsonSchema(schema, 'gemini');
+    assert.deepEqual(jsonSchema, {
+      type: 'object',
+      properties: {
+        kind: { type: 'string', enum: ['flight'] },
+        seats: { type: 'integer', maximum: Number.MAX_SAFE_INTEGER, nullable: true },
+        note: { type: 'string' },
+        extra: { type: 'object' },
+      },
+      required: ['kind', 'seats', 'extra'],
+    });
+    assert.deepEqual(
+      keywords(losses),
+      new Set(['exclusiveMinimum', 'propertyNames', 'additionalProperties']),
+    );
+  });
+
+  await t.test('merges allOf members that refer to shared definitions', () => {
+    const shared = z.object({ label: z.string().optional() }).strict().meta({ id: 'Labeled' });
+    const schema = z.intersection(shared, z.looseObject({ value: z.string() }));
+    const { jsonSchema } = exportJsonSchema(schema, 'openai-strict');
+    assert.deepEqual(jsonSchema.properties, {
+      label: { type: ['string', 'null'] },
+      value: { type: 'string' },
+    });
+    assert.equal(jsonSchema.additionalProperties, false);
+  });
+
+  await t.test('merges properties defined by several allOf members', () => {
+    const schema = z.intersection(
+      z.looseObject({ name: z.string().min(3), address: z.looseObject({ city: z.string() }) }),
+      z.looseObject({
+        name: z.string().max(5),
+        address: z.looseObject({ zip: z.string() }).optional(),
+      }),
+    );
+    const { jsonSchema, losses } = exportJsonSchema(schema, 'gemini');
+    assert.deepEqual(jsonSchema.properties, {
+      name: { type: 'string', minLength: 3, maxLength: 5 },
+      address: {
+        type: 'object',
+        properties: { city: { type: 'string' }, zip: { type: 'string' } },
+        required: ['city', 'zip'],
+      },
+    });
+    assert.deepEqual(jsonSchema.required, ['name', 'address']);
+    assert.deepEqual(losses, []);
+
+    const conflicting = z.intersection(
+      z.looseObject({ id: z.string() }),
+      z.looseObject({ id: z.number() }),
+    );
+    assert.deepEqual(exportJsonSchema(conflicting, 'gemini').losses, [
+      {
+        path: '/properties/id',
+        keyword: 'type',
+        message: 'Conflicting definitions of this property, only the first is kept',
+      },
+    ]);
+  });
+
+  await t.test('gemini inlines references and cuts off recursion', () => {
+    const { jsonSchema, losses } = exportJsonSchema(toolSchema, 'gemini');
+    assert.ok(!JSON.stringify(jsonSchema).includes('$ref'));
+    assert.equal(jsonSchema.$defs, undefined);
+    for (const [path, schema] of subschemas(jsonSchema)) {
+      assert.ok(!('const' in schema) && !('oneOf' in schema), path);
+    }
+    assert.ok(losses.some(loss => loss.keyword === '$ref' && loss.message.includes('Recursive')));
+  });
+
+  await t.test('losses point to existing subschemas', () => {
+    for (const profile of ['openai-strict', 'gemini'] as const) {
+      const { jsonSchema, losses } = exportJsonSchema(toolSchema, profile);
+      const paths = new Set([...subschemas(jsonSchema)].map(([path]) => path));
+      for (const loss of losses) assert.ok(paths.has(loss.path), `${profile}: ${loss.path}`);
+    }
+  });
+});
@@ -0,0 +1,250 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { z, type ZodType } from 'zod';
+
+import { fromJsonSchema, fromJsonSchemaTool, mkTool2AgentSchema } from '../src/index.js';
+
+const expectParseOK = <T>(schema: ZodType<T>, value: unknown): void => {
+  assert.doesNotThrow(() => schema.parse(value));
+};
+
+const expectParseFail = <T>(schema: ZodType<T>, value: unknown): void => {
+  assert.throws(() => schema.parse(value));
+};
+
+test('fromJsonSchema', async t => {
+  await t.test('objects', () => {
+    const s = fromJsonSchema({
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1, description: 'Passenger name' },
+        age: { type: 'integer', minimum: 0 },
+      },
+      required: ['name'],
+      additionalProperties: false,
+    });
+    assert.ok(s instanceof z.ZodObject);
+    assert.equal((s.shape as Record<string, ZodType>).name.description, 'Passenger name');
+    expectParseOK(s, { name: 'John' });
+    expectParseOK(s, { name: 'John', age: 30 });
+
+    expectParseFail(s, {});
+    expectParseFail(s, { name: '' });
+    expectParseFail(s, { name: 'John', age: 1.5 });
+    expectParseFail(s, { name: 'John', age: -1 });
+    expectParseFail(s, { name: 'John', extra: true });
+  });
+
+  await t.test('records', () => {
+    const s = fromJsonSchema({
+      type: 'object',
+      propertyNames: { pattern: '^[a-z]+$' },
+      additionalProperties: { type: 'number' },
+    });
+    expectParseOK(s, { a: 1, b: 2 });
+    expectParseFail(s, { A: 1 });
+    expectParseFail(s, { a: 'x' });
+  });
+
+  await t.test('enums and constants', () => {
+    const s = fromJsonSchema({ enum: ['economy', 'business'] });
+    assert.ok(s instanceof z.ZodEnum);
+    expectParseOK(s, 'economy');
+    expectParseFail(s, 'first');
+
+    const mixed = fromJsonSchema({ enum: [1, 'one', null] });
+    expectParseOK(mixed, 1);
+    expectParseOK(mixed, null);
+    expectParseFail(mixed, 2);
+
+    const constant = fromJsonSchema({ const: 'flight' });
+    expectParseOK(constant, 'flight');
+    expectParseFail(constant, 'hotel');
+  });
+
+  await t.test('arrays and tuples', () => {
+    const s = fromJsonSchema({ type: 'array', items: { type: 'string' }, minItems: 1 });
+    expectParseOK(s, ['a']);
+    expectParseFail(s, []);
+    expectParseFail(s, [1]);
+
+    const tuple = fromJsonSchema({
+      type: 'array',
+      prefixItems: [{ type: 'string' }, { type: 'number' }],
+      items: false,
+    });
+    expectParseOK(tuple, ['a', 1]);
+    expectParseFail(tuple, ['a', 1, 2]);
+  });
+
+  await t.test('unions and nullable types', () => {
+    const s = fromJsonSchema({
+      anyOf: [
+        { type: 'object', properties: { kind: { const: 'flight' } }, required: ['kind'] },
+        { type: 'object', properties: { kind: { const: 'hotel' } }, required: ['kind'] },
+      ],
+    });
+    expectParseOK(s, { kind: 'hotel' });
+    expectParseFail(s, { kind: 'car' });
+
+    const nullable = fromJsonSchema({ type: ['string', 'null'] });
+    expectParseOK(nullable, null);
+    expectParseFail(nullable, 1);
+
+    const openApiNullable = fromJsonSchema({ type: 'string', nullable: true });
+    expectParseOK(openApiNullable, null);
+  });
+
+  await t.test('allOf merges objects', () => {
+    const s = fromJsonSchema({
+      allOf: [
+        { type: 'object', properties: { a: { type: 'string' } }, required: ['a'] },
+        { type: 'object', properties: { b: { type: 'number' } }, required: ['b'] },
+      ],
+    });
+    assert.ok(s instanceof z.ZodObject);
+    expectParseOK(s, { a: 'x', b: 1 });
+    expectParseFail(s, { a: 'x' });
+
+    const overlapping = fromJsonSchema({
+      allOf: [
+        { type: 'object', properties: { a: { type: 'string', minLength: 3 } }, required: ['a'] },
+        { type: 'object', properties: { a: { type: 'string', maxLength: 5 } } },
+      ],
+    });
+    assert.ok(overlapping instanceof z.ZodObject);
+    expectParseOK(overlapping, { a: 'abcd' });
+    expectParseFail(overlapping, {});
+    expectParseFail(overlapping, { a: 'ab' });
+    expectParseFail(overlapping, { a: 'abcdef' });
+
+    const strict = fromJsonSchema({
+      allOf: [
+        { type: 'object', properties: { a: { type: 'string' } }, additionalProperties: false },
+        { type: 'object', properties: { b: { type: 'number' } } },
+      ],
+    });
+    assert.ok(strict instanceof z.ZodObject);
+    expectParseOK(strict, { a: 'x' });
+    expectParseFail(strict, { a: 'x', b: 1 });
+    expectParseFail(strict, { a: 'x', c: true });
+  });
+
+  await t.test('sibling keywords are intersected', () => {
+    const s = fromJsonSchema({
+      type: 'object',
+      properties: { a: { type: 'string' }, b: { type: 'string' } },
+      anyOf: [{ required: ['a'] }, { required: ['b'] }],
+    });
+    expectParseOK(s, { a: 'x' });
+    expectParseOK(s, { b: 'y' });
+    expectParseFail(s, 42);
+    expectParseFail(s, {});
+    expectParseFail(s, { a: 1 });
+
+    const referenced = fromJsonSchema({
+      $ref: '#/$defs/name',
+      maxLength: 3,
+      $defs: { name: { type: 'string', minLength: 1 } },
+    });
+    expectParseOK(referenced, 'abc');
+    expectParseFail(referenced, '');
+    expectParseFail(referenced, 'abcd');
+
+    const constrainedEnum = fromJsonSchema({ type: 'string', enum: ['a', 'b', 1] });
+    assert.ok(constrainedEnum instanceof z.ZodEnum);
+    expectParseOK(constrainedEnum, 'a');
+    expectParseFail(constrainedEnum, 1);
+  });
+
+  await t.test('draft 4 exclusive bounds', () => {
+    const s = fromJsonSchema({
+      type: 'number',
+      minimum: 0,
+      exclusiveMinimum: true,
+      maximum: 10,
+      exclusiveMaximum: false,
+    });
+    expectParseOK(s, 10);
+    expectParseFail(s, 0);
+  });
+
+  await t.test('references', () => {
+    const s = fromJsonSchema({
+      type: 'object',
+      properties: { root: { $ref: '#/$defs/node' } },
+      $defs: {
+        node: {
+          type: 'object',
+          properties: { children: { type: 'array', items: { $ref: '#/$defs/node' } } },
+          required: ['children'],
+        },
+      },
+    });
+    expectParseOK(s, { root: { children: [{ children: [] }] } });
+    expectParseFail(s, { root: { children: [{}] } });
+  });
+
+  await t.test('round-trips z.toJSONSchema()', () => {
+    const original = z.object({
+      email: z.email(),
+      seats: z.array(z.number().int().positive()).max(4),
+      cabin: z.enum(['economy', 'business']).optional(),
+    });
+    const jsonSchema = z.toJSONSchema(original);
+    assert.deepEqual(z.toJSONSchema(fromJsonSchema(jsonSchema)), jsonSchema);
+  });
+
+  await t.test('lists every unsupported keyword', () => {
+    assert.throws(
+      () =>
+        fromJsonSchema({
+          type: 'object',
+          properties: { a: { type: 'string', not: { const: 'x' } } },
+          patternProperties: { '^x-': {} },
+        }),
+      {
+        message:
+          'Unsupported JSON Schema:\n/: unsupported keyword "patternProperties"\n/properties/a: unsupported keyword "not"',
+      },
+    );
+    assert.throws(() => fromJsonSchema({ $ref: '#/$defs/missing' }), /unresolvable \$ref/);
+    assert.throws(() => fromJsonSchema({ type: 'date' }), /unknown type "date"/);
+  });
+
+  await t.test('ignores annotations and vendor extensions', () => {
+    const s = fromJsonSchema({
+      type: 'string',
+      title: 'City',
+      default: 'Paris',
+      examples: ['Paris'],
+      'x-display': 'select',
+    });
+    expectParseOK(s, 'Berlin');
+  });
+});
+
+test('fromJsonSchemaTool', async t => {
+  await t.test('yields schemas usable by mkTool2AgentSchema', () => {
+    const { inputSchema, outputSchema } = fromJsonSchemaTool({
+      inputSchema: {
+        type: 'object',
+        properties: { city: { type: 'string' }, days: { type: 'integer' } },
+        required: ['city'],
+      },
+      outputSchema: { type: 'object', properties: { forecast: { type: 'string' } } },
+    });
+    const s = mkTool2AgentSchema(inputSchema, outputSchema);
+    expectParseOK(s, { ok: true, forecast: 'sunny' });
+    expectParseOK(s, {
+      ok: false,
+      validationResults: { city: { valid: false, problems: ['Unknown city'] } },
+    });
+
+    // Negative: per-field feedback only for known fields
+    expectParseFail(s, {
+      ok: false,
+      validationResults: { country: { valid: false, problems: ['Unknown country'] } },
+    });
+  });
+});
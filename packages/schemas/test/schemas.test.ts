@@ -5,14 +5,31 @@ import { z, type ZodType } from 'zod';
 import {
   mkFeedbackAndInstructionsSchema,
   mkAcceptableValuesSchema,
+  mkAnnotatedSuggestionSchema,
   mkParameterValidationFailureReasonsSchema,
   mkParameterValidationResultSchema,
+  mkItemValidationResultSchema,
   mkValidationResultsSchema,
   mkToolCallSuccessSchema,
+  mkInputNormalizationSchema,
   mkToolCallFailureSchema,
   mkToolCallResultSchema,
   mkTool2AgentSchema,
   mkValueFailureFeedbackSchema,
+  mkArrayFailureFeedbackSchema,
+  mkToolCallPendingSchema,
+  mkToolCallConfirmationRequiredSchema,
+  mkRetryClassificationSchema,
+  mkProblemSchema,
+  mkJsonSchemaSchema,
+  mkToolReferenceSchema,
+  mkInstructionSchema,
+  mkAsyncTool2AgentSchema,
+  mkToolCallProgressSchema,
+  mkStreamingTool2AgentSchema,
+  mkToolCallPartialSuccessSchema,
+  mkBatchTool2AgentSchema,
+  type SchemaOptions,
 } from '../src/index.js';
 import { nonEmptyArray } from '../src/schema-tools.js';
 
@@ -77,6 +94,63 @@ test('basic schema builders', async t => {
     expectParseOK(s, { suggestedValues: ['a'] });
     expectParseFail(s, { allowedValues: ['a'], suggestedValues: ['b'] });
   });
+
+  await t.test('annotated suggestions', () => {
+    const suggestion = mkAnnotatedSuggestionSchema(z.string());
+    expectParseOK(suggestion, { value: 'CDG' });
+    expectParseOK(suggestion, {
+      value: 'CDG',
+      label: 'Paris',
+      description: '3 flights left',
+      score: 0.9,
+    });
+    expectParseFail(suggestion, { label: 'Paris' });
+    expectParseFail(suggestion, { value: 1 });
+    expectParseFail(suggestion, { value: 'CDG', score: 'high' });
+    expectParseFail(suggestion, { value: 'CDG', price: 100 });
+
+    const s = mkAcceptableValuesSchema(z.string());
+    expectParseOK(s, { annotatedSuggestions: [{ value: 'CDG', label: 'Paris' }] });
+    expectParseFail(s, { annotatedSuggestions: [] });
+    expectParseFail(s, { suggestedValues: ['ORY'], annotatedSuggestions: [{ value: 'CDG' }] });
+
+    const tool = mkTool2AgentSchema(inputSchema, outputSchema);
+    expectParseOK(tool, {
+      ok: false,
+      validationResults: {
+        name: {
+          valid: false,
+          problems: ['Unknown name'],
+          annotatedSuggestions: [{ value: 'Alice', description: 'Matches 3 letters', score: 3 }],
+        },
+      },
+    });
+    expectParseOK(mkTool2AgentSchema(z.string(), outputSchema), {
+      ok: false,
+      problems: ['Unknown name'],
+      annotatedSuggestions: [{ value: 'Alice' }],
+    });
+    // Negative: suggestion values follow the parameter schema
+    expectParseFail(tool, {
+      ok: false,
+      validationResults: {
+        age: { valid: false, problems: ['Too young'], annotatedSuggestions: [{ value: 'old' }] },
+      },
+    });
+    // Negative: unknown keys are rejected by the shared definition
+    expectParseFail(s, { annotatedSuggestions: [{ value: 'CDG', price: 100 }] });
+
+    // Every parameter refers to the shared annotations, and only adds the type of its values
+    const jsonSchema = JSON.stringify(z.toJSONSchema(tool));
+    assert.equal(
+      jsonSchema.split('"Relevance of the suggestion. Higher is better."').length - 1,
+      1,
+    );
+    assert.match(
+      jsonSchema,
+      /"allOf":\[\{"\$ref":"#\/\$defs\/tool2agent.AnnotatedSuggestion"\},\{"type":"object","properties":\{"value":\{"type":"string"\}\}/,
+    );
+  });
 });
 
 test('parameter feedback schemas', async t => {
@@ -368,6 +442,170 @@ test('validation results schemas', async t => {
     // empty object not allowed (no branches match AtLeastOne)
     expectParseFail(vr, {});
   });
+
+  await t.test('nested validation results for object and array fields', () => {
+    const nestedInputSchema = z.object({
+      passenger: z.object({
+        name: z.string(),
+        passport: z.object({ number: z.string(), country: z.string() }).optional(),
+      }),
+      stops: z.array(z.object({ airport: z.string() })).optional(),
+      tags: z.array(z.string()),
+    });
+    const s = mkTool2AgentSchema(nestedInputSchema, outputSchema);
+
+    expectParseOK(s, {
+      ok: false,
+      validationResults: {
+        passenger: {
+          valid: false,
+          validationResults: {
+            passport: {
+              valid: false,
+              validationResults: {
+                number: { valid: false, problems: ['Passport number is expired'] },
+              },
+            },
+          },
+        },
+      },
+    });
+    expectParseOK(s, {
+      ok: false,
+      validationResults: {
+        stops: {
+          valid: false,
+          validationResults: {
+            1: {
+              valid: false,
+              validationResults: {
+                airport: { valid: false, problems: ['Unknown airport'], suggestedValues: ['LHR'] },
+              },
+            },
+          },
+        },
+        tags: {
+          valid: true,
+          validationResults: { 0: { valid: true, normalizedValue: 'vip' } },
+        },
+      },
+    });
+    // requiresValidParameters refers to sibling fields of the nested object
+    expectParseOK(s, {
+      ok: false,
+      validationResults: {
+        passenger: {
+          valid: false,
+          validationResults: { passport: { valid: false, requiresValidParameters: ['name'] } },
+        },
+      },
+    });
+
+    // Negative: sibling of the nested object is not a nested field
+    expectParseFail(s, {
+      ok: false,
+      validationResults: {
+        passenger: {
+          valid: false,
+          validationResults: { passport: { valid: false, requiresValidParameters: ['tags'] } },
+        },
+      },
+    });
+    // Negative: unknown nested field
+    expectParseFail(s, {
+      ok: false,
+      validationResults: {
+        passenger: { valid: true, validationResults: { seat: { valid: true } } },
+      },
+    });
+    // Negative: item keys must be indices
+    expectParseFail(s, {
+      ok: false,
+      validationResults: { tags: { valid: false, validationResults: { first: { valid: true } } } },
+    });
+    // Negative: nested item value must match the item schema
+    expectParseFail(s, {
+      ok: false,
+      validationResults: {
+        tags: { valid: false, validationResults: { 0: { valid: true, normalizedValue: 1 } } },
+      },
+    });
+    // Negative: empty nested validation results do not justify a refusal
+    expectParseFail(s, {
+      ok: false,
+      validationResults: { passenger: { valid: false, validationResults: {} } },
+    });
+    // Negative: nested results are compact but keep their constraints
+    const passengerName = (name: unknown) => ({
+      ok: false,
+      validationResults: { passenger: { valid: false, validationResults: { name } } },
+    });
+    expectParseFail(s, passengerName({ valid: false }));
+    expectParseFail(s, passengerName({ valid: true, problems: ['bad'] }));
+    expectParseFail(
+      s,
+      passengerName({ valid: false, allowedValues: ['a'], suggestedValues: ['b'] }),
+    );
+  });
+
+  await t.test('nested validation results grow linearly with depth', () => {
+    const chain = (depth: number): z.ZodObject<any> =>
+      depth === 0
+        ? z.object({ leaf: z.string() })
+        : z.object({ child: chain(depth - 1), name: z.string() });
+    const size = (depth: number) =>
+      JSON.stringify(
+        z.toJSONSchema(mkTool2AgentSchema(chain(depth), outputSchema), { io: 'input' }),
+      ).length;
+
+    assert.ok(size(4) < 5 * size(1));
+  });
+
+  await t.test('recursive input schemas stop at the recursion point', () => {
+    const category = z.object({
+      name: z.string(),
+      get children() {
+        return z.array(category);
+      },
+    });
+    const s = mkTool2AgentSchema(category, outputSchema);
+
+    assert.doesNotThrow(() => z.toJSONSchema(s, { io: 'input' }));
+    expectParseOK(s, {
+      ok: false,
+      validationResults: {
+        children: {
+          valid: false,
+          validationResults: {
+            0: {
+              valid: false,
+              validationResults: {
+                children: { valid: false, problems: ['Too many subcategories'] },
+              },
+            },
+          },
+        },
+      },
+    });
+  });
+
+  await t.test('primitive fields have no nested validation results', () => {
+    const keyEnum = createKeyEnum(inputSchema);
+    const vr = mkValidationResultsSchema(inputSchema, keyEnum);
+    expectParseFail(vr, {
+      name: { valid: false, problems: ['bad'], validationResults: { 0: { valid: true } } },
+    });
+  });
+
+  await t.test('mkItemValidationResultSchema', () => {
+    const s = mkItemValidationResultSchema(z.string());
+    expectParseOK(s, { valid: true });
+    expectParseOK(s, { valid: false, problems: ['Tag is too long'], suggestedValues: ['short'] });
+    // Negative: invalid item must have problems
+    expectParseFail(s, { valid: false });
+    // Negative: items have no siblings to depend on
+    expectParseFail(s, { valid: false, problems: ['bad'], requiresValidParameters: ['name'] });
+  });
 });
 
 test('tool call schemas', async t => {
@@ -891,6 +1129,127 @@ test('non-record input types', async t => {
     expectParseOK(arrayToolSchema, rejected);
   });
 
+  await t.test('mkTool2AgentSchema with array input gets per-item feedback', () => {
+    const passengerSchema = z.object({ name: z.string(), age: z.number() });
+    const s = mkTool2AgentSchema(z.array(passengerSchema), z.number());
+
+    expectParseOK(s, {
+      ok: false,
+      validationResults: {
+        1: {
+          valid: false,
+          validationResults: { age: { valid: false, problems: ['Must be an adult'] } },
+        },
+      },
+    });
+    expectParseOK(s, {
+      ok: false,
+      problems: ['Too many passengers'],
+      suggestedValues: [[{ name: 'John', age: 30 }]],
+      validationResults: { 0: { valid: true, normalizedValue: { name: 'John', age: 30 } } },
+    });
+
+    // Negative: at least one of problems or validationResults
+    expectParseFail(s, { ok: false, feedback: ['Check the passengers'] });
+    // Negative: items are keyed by index
+    expectParseFail(s, {
+      ok: false,
+      validationResults: { first: { valid: false, problems: ['bad'] } },
+    });
+    // Negative: item feedback follows the item schema
+    expectParseFail(s, {
+      ok: false,
+      validationResults: { 0: { valid: false, problems: ['bad'], normalizedValue: 'John' } },
+    });
+    // Negative: items have no sibling parameters to depend on
+    expectParseFail(s, {
+      ok: false,
+      validationResults: { 0: { valid: false, requiresValidParameters: ['name'] } },
+    });
+  });
+
+  await t.test('mkTool2AgentSchema with discriminated union input gets per-member feedback', () => {
+    const travelSchema = z.discriminatedUnion('kind', [
+      z.object({ kind: z.literal('flight'), from: z.string(), to: z.string() }),
+      z.object({ kind: z.literal('hotel'), city: z.string(), nights: z.number() }),
+    ]);
+    const s = mkTool2AgentSchema(travelSchema, z.number());
+
+    expectParseOK(s, {
+      ok: false,
+      validationResults: {
+        kind: { valid: true },
+        to: { valid: false, requiresValidParameters: ['from'] },
+      },
+    });
+    expectParseOK(s, {
+      ok: false,
+      validationResults: { nights: { valid: false, problems: ['Too long'], suggestedValues: [7] } },
+    });
+
+    // Negative: requiresValidParameters is restricted to the keys of the same member
+    expectParseFail(s, {
+      ok: false,
+      validationResults: { to: { valid: false, requiresValidParameters: ['city'] } },
+    });
+    // Negative: fields of different members can not be mixed
+    expectParseFail(s, {
+      ok: false,
+      validationResults: {
+        to: { valid: false, problems: ['Unknown airport'] },
+        city: { valid: false, problems: ['Unknown city'] },
+      },
+    });
+    // Negative: values follow the member schema
+    expectParseFail(s, {
+      ok: false,
+      validationResults: { nights: { valid: false, problems: ['bad'], normalizedValue: '7' } },
+    });
+
+    // Members are described by their discriminator value
+    const jsonSchema = JSON.stringify(z.toJSONSchema(s, { unrepresentable: 'any' }));
+    assert.match(jsonSchema, /Variant where kind is \\"flight\\"/);
+  });
+
+  await t.test('mkTool2AgentSchema with union of objects input', () => {
+    const contactSchema = z.union([
+      z.object({ email: z.string() }),
+      z.object({ phone: z.string(), country: z.string() }),
+    ]);
+    const s = mkTool2AgentSchema(z.object({ contact: contactSchema }), z.number());
+
+    expectParseOK(s, {
+      ok: false,
+      validationResults: {
+        contact: {
+          valid: false,
+          validationResults: { phone: { valid: false, requiresValidParameters: ['country'] } },
+        },
+      },
+    });
+    expectParseFail(s, {
+      ok: false,
+      validationResults: {
+        contact: {
+          valid: false,
+          validationResults: { phone: { valid: false, requiresValidParameters: ['email'] } },
+        },
+      },
+    });
+  });
+
+  await t.test('mkArrayFailureFeedbackSchema', () => {
+    const s = mkArrayFailureFeedbackSchema(z.array(z.string()));
+    expectParseOK(s, { problems: ['Too many codes'] });
+    expectParseOK(s, { validationResults: { 2: { valid: false, problems: ['Unknown code'] } } });
+    expectParseFail(s, {});
+    expectParseFail(s, {
+      problems: ['bad'],
+      allowedValues: [['a']],
+      suggestedValues: [['b']],
+    });
+  });
+
   await t.test('mkTool2AgentSchema with union input (non-record)', () => {
     const unionInputSchema = z.union([z.string(), z.number()]);
     const unionOutputSchema = z.boolean();
@@ -957,3 +1316,582 @@ test('non-record input types', async t => {
     });
   });
 });
+
+test('problem codes', async t => {
+  await t.test('mkProblemSchema', () => {
+    const s = mkProblemSchema();
+    expectParseOK(s, 'Seat is taken');
+    expectParseOK(s, { code: 'seat_taken', message: 'Seat is taken' });
+    expectParseOK(s, { code: 'seat_taken', message: 'Seat is taken', params: { seat: '12A' } });
+
+    // Negative: message is required
+    expectParseFail(s, { code: 'seat_taken' });
+    // Negative: code is required
+    expectParseFail(s, { message: 'Seat is taken' });
+    // Negative: unknown fields
+    expectParseFail(s, { code: 'seat_taken', message: 'Seat is taken', severity: 'high' });
+  });
+
+  await t.test('structured problems are accepted wherever problems are', () => {
+    const s = mkTool2AgentSchema(inputSchema, outputSchema);
+    expectParseOK(s, {
+      ok: false,
+      problems: ['System is under maintenance', { code: 'rate_limited', message: 'Slow down' }],
+    });
+    expectParseOK(s, {
+      ok: false,
+      validationResults: {
+        age: { valid: false, problems: [{ code: 'too_young', message: 'Must be 18 or older' }] },
+      },
+    });
+    expectParseOK(mkTool2AgentSchema(z.string(), outputSchema), {
+      ok: false,
+      problems: [{ code: 'empty_query', message: 'Query can not be empty' }],
+    });
+
+    expectParseFail(s, { ok: false, problems: [{ code: 'rate_limited' }] });
+
+    // Every problems field refers to one shared definition
+    const jsonSchema = JSON.stringify(z.toJSONSchema(s));
+    assert.equal(
+      jsonSchema.split('"Stable machine-readable identifier of the problem."').length - 1,
+      1,
+    );
+  });
+});
+
+test('retry classification', async t => {
+  await t.test('mkRetryClassificationSchema', () => {
+    const s = mkRetryClassificationSchema();
+    expectParseOK(s, {});
+    expectParseOK(s, { retryable: false });
+    expectParseOK(s, { retryable: true });
+    expectParseOK(s, { retryable: true, retryAfterMs: 5000 });
+
+    // Negative: classification is a boolean
+    expectParseFail(s, { retryable: 'yes' });
+    // Negative: retry hint is a number of milliseconds
+    expectParseFail(s, { retryable: true, retryAfterMs: '5s' });
+  });
+
+  await t.test('failures of record and non-record inputs carry retry classification', () => {
+    const recordSchema = mkTool2AgentSchema(inputSchema, outputSchema);
+    expectParseOK(recordSchema, {
+      ok: false,
+      problems: ['Service unavailable'],
+      retryable: true,
+      retryAfterMs: 1000,
+    });
+    expectParseOK(recordSchema, {
+      ok: false,
+      validationResults: { name: { valid: false, problems: ['bad'] } },
+      retryable: false,
+    });
+    expectParseFail(recordSchema, {
+      ok: false,
+      problems: ['Timeout'],
+      retryable: true,
+      retryAfterMs: '1s',
+    });
+    // Negative: successes are not classified
+    expectParseFail(recordSchema, { ok: true, id: '1', createdAt: 'now', retryable: true });
+
+    const valueSchema = mkTool2AgentSchema(z.string(), outputSchema);
+    expectParseOK(valueSchema, { ok: false, problems: ['Timeout'], retryable: true });
+    expectParseFail(valueSchema, { ok: false, problems: ['Timeout'], retryable: 1 });
+  });
+});
+
+test('confirmation outcome', async t => {
+  await t.test('mkToolCallConfirmationRequiredSchema', () => {
+    const s = mkToolCallConfirmationRequiredSchema();
+    expectParseOK(s, {
+      ok: false,
+      requiresConfirmation: { summary: 'Cancel booking ABC', token: 'tok-1' },
+      instructions: ['Ask the user to confirm'],
+    });
+
+    // Negative: token is required
+    expectParseFail(s, { ok: false, requiresConfirmation: { summary: 'Cancel booking ABC' } });
+    // Negative: confirmation requests do not carry problems
+    expectParseFail(s, {
+      ok: false,
+      requiresConfirmation: { summary: 'Cancel booking ABC', token: 'tok-1' },
+      problems: ['Are you sure?'],
+    });
+  });
+
+  await t.test('mkTool2AgentSchema accepts confirmation outcome', () => {
+    const s = mkTool2AgentSchema(inputSchema, outputSchema);
+    expectParseOK(s, {
+      ok: false,
+      requiresConfirmation: { summary: 'Cancel booking ABC', token: 'tok-1' },
+    });
+    expectParseOK(mkTool2AgentSchema(z.string(), outputSchema), {
+      ok: false,
+      requiresConfirmation: { summary: 'Send $100', token: 'tok-2' },
+    });
+    // Negative: failures are not confirmation requests
+    expectParseFail(s, {
+      ok: false,
+      validationResults: { name: { valid: false, problems: ['bad'] } },
+      requiresConfirmation: { summary: 'Cancel booking ABC', token: 'tok-1' },
+    });
+  });
+});
+
+test('input normalization', async t => {
+  await t.test('mkInputNormalizationSchema', () => {
+    const s = mkInputNormalizationSchema(inputSchema);
+    expectParseOK(s, {});
+    expectParseOK(s, {
+      normalizedInput: { name: 'John' },
+      inputNotes: { name: ['Trimmed whitespace'], age: ['Rounded down'] },
+    });
+    // Negative: normalized values follow the input schema
+    expectParseFail(s, { normalizedInput: { age: 'thirty' } });
+    // Negative: notes refer to input fields and cannot be empty
+    expectParseFail(s, { inputNotes: { nickname: ['Unknown field'] } });
+    expectParseFail(s, { inputNotes: { name: [] } });
+
+    const valueSchema = mkInputNormalizationSchema(z.string());
+    expectParseOK(valueSchema, { normalizedInput: 'New York' });
+    expectParseFail(valueSchema, { normalizedInput: 1 });
+    expectParseFail(valueSchema, { inputNotes: { value: ['note'] } });
+  });
+
+  await t.test('successes report the normalized input', () => {
+    const s = mkTool2AgentSchema(inputSchema, outputSchema);
+    expectParseOK(s, {
+      ok: true,
+      id: '1',
+      createdAt: 'now',
+      normalizedInput: { email: 'john@example.com' },
+      inputNotes: { email: ['Lowercased'] },
+    });
+    expectParseFail(s, { ok: true, id: '1', createdAt: 'now', normalizedInput: { age: '1' } });
+
+    // Without the input schema, success does not carry normalization
+    expectParseFail(mkToolCallSuccessSchema(outputSchema), {
+      ok: true,
+      id: '1',
+      createdAt: 'now',
+      normalizedInput: { name: 'John' },
+    });
+  });
+
+  await t.test('unions of objects are normalized per member', () => {
+    const travelSchema = z.discriminatedUnion('kind', [
+      z.object({ kind: z.literal('flight'), from: z.string(), to: z.string() }),
+      z.object({ kind: z.literal('hotel'), city: z.string(), nights: z.number() }),
+    ]);
+    const s = mkTool2AgentSchema(travelSchema, z.number());
+    type TravelResultType = z.infer<typeof s>;
+
+    const accepted: TravelResultType = {
+      ok: true,
+      value: 1,
+      normalizedInput: { city: 'New York' },
+      inputNotes: { city: ['Expanded "nyc"'] },
+    };
+    expectParseOK(s, accepted);
+
+    // Negative: fields of different members can not be mixed
+    expectParseFail(s, { ok: true, value: 1, normalizedInput: { city: 'New York', to: 'JFK' } });
+    expectParseFail(s, { ok: true, value: 1, inputNotes: { city: ['note'], from: ['note'] } });
+    // Negative: normalized values follow the member schema
+    expectParseFail(s, { ok: true, value: 1, normalizedInput: { nights: '7' } });
+  });
+});
+
+test('dynamic parameter schema', async t => {
+  await t.test('mkJsonSchemaSchema', () => {
+    const s = mkJsonSchemaSchema();
+    expectParseOK(s, z.toJSONSchema(z.object({ seat: z.enum(['12A', '12B']) })));
+    expectParseOK(s, z.toJSONSchema(z.array(z.union([z.string(), z.number()]))));
+    expectParseOK(s, { type: ['string', 'null'], 'x-custom': true });
+
+    // Negative: Zod schemas do not survive JSON encoding, so only JSON Schema is accepted
+    expectParseFail(s, 'string');
+    expectParseFail(s, { type: 1 });
+    expectParseFail(s, { type: 'object', properties: { seat: 'string' } });
+    expectParseFail(s, { type: 'array', items: { required: 'seat' } });
+  });
+
+  await t.test('parameter validation results carry JSON Schema', () => {
+    const s = mkTool2AgentSchema(inputSchema, outputSchema);
+    expectParseOK(s, {
+      ok: false,
+      validationResults: {
+        name: {
+          valid: false,
+          problems: ['Unknown name'],
+          dynamicParameterSchema: z.toJSONSchema(z.enum(['Alice', 'Bob'])),
+        },
+      },
+    });
+    expectParseOK(mkTool2AgentSchema(z.string(), outputSchema), {
+      ok: false,
+      problems: ['Unknown name'],
+      dynamicParameterSchema: { type: 'string', enum: ['Alice', 'Bob'] },
+    });
+
+    // Negative: dynamicParameterSchema must be a JSON Schema object
+    expectParseFail(s, {
+      ok: false,
+      validationResults: {
+        name: { valid: false, problems: ['Unknown name'], dynamicParameterSchema: ['Alice'] },
+      },
+    });
+  });
+});
+
+test('related tools', async t => {
+  const toolNames = ['search_flights', 'book_flight'] as const;
+
+  await t.test('mkToolReferenceSchema', () => {
+    const s = mkToolReferenceSchema();
+    expectParseOK(s, { toolName: 'search_flights', relation: 'prerequisite' });
+    expectParseOK(s, {
+      toolName: 'anything',
+      relation: 'followUp',
+      suggestedInput: { from: 'JFK' },
+      reason: 'Find a flight first',
+    });
+    // Negative: relation is required and closed
+    expectParseFail(s, { toolName: 'search_flights' });
+    expectParseFail(s, { toolName: 'search_flights', relation: 'before' });
+
+    // Tool names are validated against the known tools, if provided
+    const known = mkToolReferenceSchema({ toolNames: [...toolNames] });
+    expectParseOK(known, { toolName: 'search_flights', relation: 'prerequisite' });
+    expectParseFail(known, { toolName: 'search_hotels', relation: 'prerequisite' });
+  });
+
+  await t.test('mkFeedbackAndInstructionsSchema', () => {
+    const s = mkFeedbackAndInstructionsSchema({ toolNames: [...toolNames] });
+    expectParseOK(s, { relatedTools: [{ toolName: 'book_flight', relation: 'followUp' }] });
+    expectParseFail(s, { relatedTools: [] });
+    expectParseFail(s, { relatedTools: [{ toolName: 'cancel_flight', relation: 'followUp' }] });
+  });
+
+  await t.test('known tool names apply to all outcomes and validation results', () => {
+    const s = mkTool2AgentSchema(inputSchema, outputSchema, { toolNames: [...toolNames] });
+    const relatedTools = [{ toolName: 'search_flights', relation: 'prerequisite' }];
+    const unknownTools = [{ toolName: 'search_hotels', relation: 'prerequisite' }];
+
+    expectParseOK(s, { ok: true, id: '1', createdAt: 'now', relatedTools });
+    expectParseOK(s, { ok: false, problems: ['Unknown flight'], relatedTools });
+    expectParseOK(s, {
+      ok: false,
+      validationResults: { name: { valid: false, problems: ['Unknown'], relatedTools } },
+    });
+    expectParseOK(s, {
+      ok: false,
+      requiresConfirmation: { summary: 'Book flight', token: 't' },
+      relatedTools,
+    });
+
+    expectParseFail(s, { ok: true, id: '1', createdAt: 'now', relatedTools: unknownTools });
+    expectParseFail(s, { ok: false, problems: ['Unknown flight'], relatedTools: unknownTools });
+    expectParseFail(s, {
+      ok: false,
+      validationResults: {
+        name: { valid: false, problems: ['Unknown'], relatedTools: unknownTools },
+      },
+    });
+
+    // Without known tool names, any tool can be referenced
+    expectParseOK(mkTool2AgentSchema(inputSchema, outputSchema), {
+      ok: false,
+      problems: ['Unknown flight'],
+      relatedTools: unknownTools,
+    });
+  });
+
+  await t.test('related tools are a shared definition', () => {
+    const jsonSchema = JSON.stringify(
+      z.toJSONSchema(mkTool2AgentSchema(inputSchema, outputSchema)),
+    );
+    assert.equal(jsonSchema.split('"prerequisite","followUp"').length - 1, 1);
+    assert.match(jsonSchema, /"relatedTools":\{"\$ref":"#\/\$defs\/tool2agent.RelatedTools"\}/);
+
+    // With known tool names, the schema is shared by every outcome of the tool
+    const known: SchemaOptions = { toolNames: [...toolNames] };
+    assert.equal(mkToolReferenceSchema(known), mkToolReferenceSchema(known));
+  });
+});
+
+test('instruction kinds', async t => {
+  await t.test('mkInstructionSchema', () => {
+    const s = mkInstructionSchema();
+    expectParseOK(s, 'Try a different city');
+    expectParseOK(s, { kind: 'ask_user', question: 'Which Paris?', options: ['France', 'Texas'] });
+    expectParseOK(s, { kind: 'call_tool', toolName: 'search_cities', suggestedInput: 'Paris' });
+    expectParseOK(s, { kind: 'stop_and_report', message: 'The city is not served' });
+    expectParseOK(s, { kind: 'retry' });
+    expectParseOK(s, { kind: 'retry', message: 'Use the IATA code' });
+
+    // Negative: unknown kinds and missing fields
+    expectParseFail(s, { kind: 'dance' });
+    expectParseFail(s, { kind: 'ask_user' });
+    expectParseFail(s, { kind: 'ask_user', question: 'Which?', options: [] });
+    expectParseFail(s, { kind: 'stop_and_report' });
+    // Negative: fields of other kinds are not allowed
+    expectParseFail(s, { kind: 'retry', question: 'Which?' });
+
+    // call_tool instructions are validated against the known tools, if provided
+    const known = mkInstructionSchema({ toolNames: ['search_cities'] });
+    expectParseOK(known, { kind: 'call_tool', toolName: 'search_cities' });
+    expectParseFail(known, { kind: 'call_tool', toolName: 'search_hotels' });
+  });
+
+  await t.test('outcomes accept typed instructions', () => {
+    const s = mkTool2AgentSchema(inputSchema, outputSchema);
+    expectParseOK(s, {
+      ok: false,
+      problems: ['Unknown city'],
+      instructions: ['Check the spelling', { kind: 'ask_user', question: 'Which Paris?' }],
+    });
+    expectParseOK(s, {
+      ok: false,
+      validationResults: {
+        name: { valid: false, problems: ['Unknown'], instructions: [{ kind: 'retry' }] },
+      },
+    });
+    expectParseFail(s, {
+      ok: true,
+      id: '1',
+      createdAt: 'now',
+      instructions: [{ kind: 'ask_user' }],
+    });
+  });
+
+  await t.test('instructions are a shared definition', () => {
+    const jsonSchema = JSON.stringify(
+      z.toJSONSchema(mkTool2AgentSchema(inputSchema, outputSchema)),
+    );
+    assert.equal(jsonSchema.split('"const":"ask_user"').length - 1, 1);
+    assert.match(jsonSchema, /"instructions":\{"\$ref":"#\/\$defs\/tool2agent.Instructions"\}/);
+
+    const known: SchemaOptions = { toolNames: ['search_cities'] };
+    assert.equal(mkInstructionSchema(known), mkInstructionSchema(known));
+  });
+});
+
+test('pending outcome', async t => {
+  await t.test('mkToolCallPendingSchema', () => {
+    const s = mkToolCallPendingSchema();
+    expectParseOK(s, { ok: 'pending', jobId: 'job-1' });
+    expectParseOK(s, {
+      ok: 'pending',
+      jobId: 'job-1',
+      pollAfterMs: 5000,
+      progress: 0.25,
+      feedback: ['Report generation started'],
+      instructions: ['Check back later'],
+    });
+
+    // Negative: jobId is required
+    expectParseFail(s, { ok: 'pending' });
+    // Negative: progress and poll hint are numbers
+    expectParseFail(s, { ok: 'pending', jobId: 'job-1', progress: '25%' });
+    expectParseFail(s, { ok: 'pending', jobId: 'job-1', pollAfterMs: '5s' });
+    // Negative: unknown fields
+    expectParseFail(s, { ok: 'pending', jobId: 'job-1', extra: true });
+  });
+
+  await t.test('mkAsyncTool2AgentSchema accepts all outcomes', () => {
+    const s = mkAsyncTool2AgentSchema(inputSchema, outputSchema);
+    expectParseOK(s, { ok: true, id: '1', createdAt: 'now' });
+    expectParseOK(s, { ok: false, problems: ['rate limit'] });
+    expectParseOK(s, { ok: 'pending', jobId: 'job-1', pollAfterMs: 1000 });
+
+    expectParseFail(s, { ok: 'pending' });
+    expectParseFail(s, { ok: false });
+  });
+
+  await t.test('mkTool2AgentSchema does not accept pending outcome', () => {
+    const s = mkTool2AgentSchema(inputSchema, outputSchema);
+    expectParseFail(s, { ok: 'pending', jobId: 'job-1' });
+  });
+});
+
+test('progress updates', async t => {
+  const progressSchema = z.object({ checked: z.number(), total: z.number() });
+
+  await t.test('mkToolCallProgressSchema', () => {
+    const s = mkToolCallProgressSchema(progressSchema);
+    expectParseOK(s, { ok: 'progress', update: { checked: 3, total: 10 } });
+
+    // Negative: the update is typed
+    expectParseFail(s, { ok: 'progress', update: { checked: '3' } });
+    expectParseFail(s, { ok: 'progress' });
+    // Negative: unknown fields
+    expectParseFail(s, { ok: 'progress', update: { checked: 3, total: 10 }, extra: true });
+  });
+
+  await t.test('mkStreamingTool2AgentSchema accepts all outcomes', () => {
+    const s = mkStreamingTool2AgentSchema(inputSchema, outputSchema, progressSchema);
+    expectParseOK(s, { ok: true, id: '1', createdAt: 'now' });
+    expectParseOK(s, { ok: false, problems: ['rate limit'] });
+    expectParseOK(s, { ok: 'progress', update: { checked: 3, total: 10 } });
+
+    expectParseFail(s, { ok: 'pending', jobId: 'job-1' });
+    expectParseFail(s, { ok: false });
+  });
+});
+
+test('batch outcomes', async t => {
+  const seatSchema = z.object({ row: z.number(), letter: z.string() });
+  const seatBookingSchema = z.object({ bookingId: z.string() });
+  const seatsInputSchema = z.object({ seats: z.array(seatSchema) });
+
+  await t.test('mkToolCallPartialSuccessSchema', () => {
+    const s = mkToolCallPartialSuccessSchema(seatSchema, seatBookingSchema);
+    expectParseOK(s, {
+      ok: 'partial',
+      items: [
+        { ok: true, bookingId: 'b-1' },
+        {
+          ok: false,
+          validationResults: { letter: { valid: false, problems: ['Seat is taken'] } },
+        },
+      ],
+      feedback: ['1 of 2 seats booked'],
+    });
+
+    // Negative: items can not be empty
+    expectParseFail(s, { ok: 'partial', items: [] });
+    // Negative: item failures are validated against item fields
+    expectParseFail(s, {
+      ok: 'partial',
+      items: [{ ok: false, validationResults: { seats: { valid: false, problems: ['bad'] } } }],
+    });
+    // Negative: item failures must follow the protocol (AtLeastOne)
+    expectParseFail(s, { ok: 'partial', items: [{ ok: false }] });
+  });
+
+  await t.test('mkBatchTool2AgentSchema accepts all outcomes', () => {
+    const s = mkBatchTool2AgentSchema(seatsInputSchema, seatSchema, seatBookingSchema);
+    expectParseOK(s, { ok: true, items: [{ ok: true, bookingId: 'b-1' }] });
+    expectParseOK(s, { ok: true, items: [] });
+    expectParseOK(s, {
+      ok: true,
+      items: [{ ok: true, bookingId: 'b-1', normalizedInput: { letter: 'A' } }],
+    });
+    expectParseOK(s, {
+      ok: false,
+      validationResults: { seats: { valid: false, problems: ['Too many seats'] } },
+    });
+    expectParseOK(s, {
+      ok: 'partial',
+      items: [{ ok: false, problems: ['Seat is taken'] }],
+    });
+
+    // Negative: whole-batch failure refers to the batch input
+    expectParseFail(s, {
+      ok: false,
+      validationResults: { letter: { valid: false, problems: ['bad'] } },
+    });
+    // Negative: successful items must match the item output
+    expectParseFail(s, { ok: true, items: [{ ok: true }] });
+  });
+});
+
+test('compact mode', async t => {
+  const failures: { value: unknown; ok: boolean }[] = [
+    { value: { ok: true, id: '1', createdAt: 'now' }, ok: true },
+    { value: { ok: false, problems: ['bad'] }, ok: true },
+    { value: { ok: false, validationResults: { name: { valid: true } } }, ok: true },
+    {
+      value: {
+        ok: false,
+        validationResults: { age: { valid: false, requiresValidParameters: ['name'] } },
+      },
+      ok: true,
+    },
+    {
+      value: {
+        ok: false,
+        validationResults: { name: { valid: false, problems: ['bad'], suggestedValues: ['Bob'] } },
+      },
+      ok: true,
+    },
+    // AtLeastOne: failure needs validationResults or problems
+    { value: { ok: false }, ok: false },
+    // AtLeastOne: validationResults can not be empty
+    { value: { ok: false, validationResults: {} }, ok: false },
+    // AtLeastOne: invalid parameter needs a reason
+    { value: { ok: false, validationResults: { name: { valid: false } } }, ok: false },
+    // AtMostOne: allowedValues and suggestedValues are exclusive
+    {
+      value: {
+        ok: false,
+        validationResults: {
+          name: { valid: false, problems: ['bad'], allowedValues: ['A'], suggestedValues: ['B'] },
+        },
+      },
+      ok: false,
+    },
+    // Unknown parameter
+    {
+      value: { ok: false, validationResults: { foo: { valid: false, problems: ['x'] } } },
+      ok: false,
+    },
+    // Unknown field
+    { value: { ok: false, problems: ['bad'], extra: true }, ok: false },
+  ];
+
+  await t.test('accepts the same values as the default mode', () => {
+    const defaultSchema = mkTool2AgentSchema(inputSchema, outputSchema);
+    const compactSchema = mkTool2AgentSchema(inputSchema, outputSchema, { compact: true });
+    for (const { value, ok } of failures) {
+      assert.equal(defaultSchema.safeParse(value).success, ok, JSON.stringify(value));
+      assert.equal(compactSchema.safeParse(value).success, ok, JSON.stringify(value));
+    }
+  });
+
+  await t.test('non-record inputs', () => {
+    const valueSchema = mkTool2AgentSchema(z.string(), z.string(), { compact: true });
+    expectParseOK(valueSchema, { ok: false, problems: ['bad'], allowedValues: ['a'] });
+    expectParseFail(valueSchema, { ok: false, allowedValues: ['a'] });
+    expectParseFail(valueSchema, {
+      ok: false,
+      problems: ['bad'],
+      allowedValues: ['a'],
+      suggestedValues: ['b'],
+    });
+
+    const arraySchema = mkTool2AgentSchema(z.array(z.string()), z.string(), { compact: true });
+    expectParseOK(arraySchema, {
+      ok: false,
+      validationResults: { 0: { valid: false, problems: ['bad'] } },
+    });
+    expectParseFail(arraySchema, { ok: false });
+  });
+
+  await t.test('standalone generators', () => {
+    const acceptable = mkAcceptableValuesSchema(z.string(), { compact: true });
+    expectParseOK(acceptable, {});
+    expectParseOK(acceptable, { allowedValues: ['a'] });
+    expectParseFail(acceptable, { allowedValues: ['a'], suggestedValues: ['b'] });
+
+    const reasons = mkParameterValidationFailureReasonsSchema(createKeyEnum(inputSchema), {
+      compact: true,
+    });
+    expectParseOK(reasons, { problems: ['bad'] });
+    expectParseOK(reasons, { requiresValidParameters: ['name'] });
+    expectParseFail(reasons, {});
+  });
+
+  await t.test('emits a much smaller JSON Schema', () => {
+    const wideInputSchema = z.object(
+      Object.fromEntries(Array.from({ length: 8 }, (_, i) => [`field${i}`, z.string()])),
+    );
+    const size = (compact: boolean) =>
+      JSON.stringify(z.toJSONSchema(mkTool2AgentSchema(wideInputSchema, outputSchema, { compact })))
+        .length;
+    assert.ok(size(true) * 10 < size(false));
+  });
+});
@@ -0,0 +1,153 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { z, type ZodType } from 'zod';
+
+import {
+  mkTool2AgentSchema,
+  mkAsyncTool2AgentSchema,
+  mkStreamingTool2AgentSchema,
+  mkBatchTool2AgentSchema,
+  standardIssuesToToolCallFailure,
+  toZodSchema,
+  type StandardSchemaV1,
+} from '../src/index.js';
+
+type Booking = { city: string; nights: number };
+
+const bookingJsonSchema = {
+  type: 'object',
+  properties: { city: { type: 'string' }, nights: { type: 'integer', minimum: 1 } },
+  required: ['city', 'nights'],
+};
+
+// A schema of a library that is not Zod, validating a booking
+function mkBookingSchema<Extra extends object>(extra: Extra): StandardSchemaV1<Booking> & Extra {
+  return {
+    ...extra,
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: value => {
+        const { city, nights } = value as Partial<Booking>;
+        const issues = [
+          ...(typeof city === 'string' ? [] : [{ message: 'Expected a city', path: ['city'] }]),
+          ...(typeof nights === 'number' && nights >= 1
+            ? []
+            : [{ message: 'Expected at least one night', path: [{ key: 'nights' }] }]),
+        ];
+        return issues.length > 0 ? { issues } : { value: value as Booking };
+      },
+      ...('~standard' in extra ? (extra['~standard'] as object) : {}),
+    },
+  };
+}
+
+const expectParseOK = <T>(schema: ZodType<T>, value: unknown): void => {
+  assert.doesNotThrow(() => schema.parse(value));
+};
+
+const expectParseFail = <T>(schema: ZodType<T>, value: unknown): void => {
+  assert.throws(() => schema.parse(value));
+};
+
+test('toZodSchema', async t => {
+  await t.test('returns Zod schemas as is', () => {
+    const schema = z.object({ city: z.string() });
+    assert.equal(toZodSchema(schema), schema);
+  });
+
+  await t.test('uses the Standard JSON Schema converter', () => {
+    const schema = mkBookingSchema({
+      '~standard': { jsonSchema: { input: () => bookingJsonSchema } },
+    });
+    const zodSchema = toZodSchema(schema);
+    assert.ok(zodSchema instanceof z.ZodObject);
+    expectParseOK(zodSchema, { city: 'Paris', nights: 2 });
+    expectParseFail(zodSchema, { city: 'Paris', nights: 0 });
+  });
+
+  await t.test("uses ArkType's toJsonSchema()", () => {
+    const schema = mkBookingSchema({ toJsonSchema: () => bookingJsonSchema });
+    expectParseOK(toZodSchema(schema), { city: 'Paris', nights: 2 });
+  });
+
+  await t.test('uses the given JSON Schema', () => {
+    const zodSchema = toZodSchema(mkBookingSchema({}), { jsonSchema: bookingJsonSchema });
+    expectParseFail(zodSchema, { city: 'Paris' });
+  });
+
+  await t.test('throws without a JSON Schema', () => {
+    assert.throws(() => toZodSchema(mkBookingSchema({})), {
+      message: 'Can not get a JSON Schema of a test schema: pass it as options.jsonSchema',
+    });
+  });
+});
+
+test('mkTool2AgentSchema accepts Standard Schemas', () => {
+  const inputSchema = mkBookingSchema({ toJsonSchema: () => bookingJsonSchema });
+  const outputSchema = mkBookingSchema({ toJsonSchema: () => bookingJsonSchema });
+  const s = mkTool2AgentSchema(inputSchema, outputSchema);
+  expectParseOK(s, { ok: true, city: 'Paris', nights: 2 });
+  expectParseOK(s, { ok: false, validationResults: { city: { valid: false, problems: ['x'] } } });
+
+  // Negative: feedback refers to input fields
+  expectParseFail(s, {
+    ok: false,
+    validationResults: { hotel: { valid: false, problems: ['x'] } },
+  });
+});
+
+test('the other generators accept Standard Schemas', () => {
+  const booking = mkBookingSchema({ toJsonSchema: () => bookingJsonSchema });
+  const price = z.object({ price: z.number() });
+
+  const asyncSchema = mkAsyncTool2AgentSchema(booking, price);
+  expectParseOK(asyncSchema, { ok: 'pending', jobId: 'job-1' });
+  expectParseFail(asyncSchema, { ok: true, city: 'Paris' });
+
+  const streamingSchema = mkStreamingTool2AgentSchema(booking, price, booking);
+  expectParseOK(streamingSchema, { ok: 'progress', update: { city: 'Paris', nights: 2 } });
+  expectParseFail(streamingSchema, { ok: 'progress', update: { city: 'Paris', nights: 0 } });
+
+  const batchSchema = mkBatchTool2AgentSchema(
+    z.object({ bookings: z.array(z.unknown()) }),
+    booking,
+    price,
+  );
+  expectParseOK(batchSchema, {
+    ok: 'partial',
+    items: [
+      { ok: true, price: 100 },
+      { ok: false, validationResults: { nights: { valid: false, problems: ['Sold out'] } } },
+    ],
+  });
+  expectParseFail(batchSchema, {
+    ok: 'partial',
+    items: [{ ok: false, validationResults: { hotel: { valid: false, problems: ['x'] } } }],
+  });
+});
+
+test('standardIssuesToToolCallFailure', async t => {
+  const inputSchema = mkBookingSchema({ toJsonSchema: () => bookingJsonSchema });
+
+  await t.test('groups issues by top-level key', async () => {
+    const result = await inputSchema['~standard'].validate({ nights: 0 });
+    assert.ok(result.issues);
+    const failure = standardIssuesToToolCallFailure(inputSchema, result.issues);
+    assert.deepEqual(failure, {
+      ok: false,
+      validationResults: {
+        city: { valid: false, problems: ['Expected a city'] },
+        nights: { valid: false, problems: ['Expected at least one night'] },
+      },
+    });
+    mkTool2AgentSchema(inputSchema, z.string()).parse(failure);
+  });
+
+  await t.test('falls back to problems for root-level issues', () => {
+    assert.deepEqual(standardIssuesToToolCallFailure(inputSchema, [{ message: 'Not an object' }]), {
+      ok: false,
+      problems: ['Not an object'],
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { z, type ZodType } from 'zod';
+
+import { mkTool2AgentSchema, zodErrorToToolCallFailure } from '../src/index.js';
+
+// Parses the input, expecting it to fail, and converts the error
+function failureOf<S extends ZodType<unknown>>(schema: S, input: unknown) {
+  const parsed = schema.safeParse(input);
+  assert.ok(!parsed.success);
+  return zodErrorToToolCallFailure(schema, parsed.error);
+}
+
+const bookingSchema = z.strictObject({
+  cabin: z.enum(['economy', 'business']),
+  seats: z.number().int().min(1),
+  passengers: z.array(z.object({ name: z.string() })),
+});
+
+test('zodErrorToToolCallFailure', async t => {
+  await t.test('groups issues by top-level key', () => {
+    const failure = failureOf(bookingSchema, {
+      cabin: 'economy',
+      seats: 0,
+      passengers: [{ name: 'John' }, {}],
+    });
+    assert.deepEqual(failure, {
+      ok: false,
+      validationResults: {
+        seats: {
+          valid: false,
+          problems: ['Too small: expected number to be >=1'],
+        },
+        passengers: {
+          valid: false,
+          problems: ['1.name: Invalid input: expected string, received undefined'],
+        },
+      },
+    });
+    mkTool2AgentSchema(bookingSchema, z.string()).parse(failure);
+  });
+
+  await t.test('derives allowedValues for enum and literal issues', () => {
+    const failure = failureOf(bookingSchema.extend({ kind: z.literal('flight') }), {
+      cabin: 'first',
+      seats: 1,
+      passengers: [],
+      kind: 'hotel',
+    });
+    assert.deepEqual(failure, {
+      ok: false,
+      validationResults: {
+        cabin: {
+          valid: false,
+          problems: ['Invalid option: expected one of "economy"|"business"'],
+          allowedValues: ['economy', 'business'],
+        },
+        kind: {
+          valid: false,
+          problems: ['Invalid input: expected "flight"'],
+          allowedValues: ['flight'],
+        },
+      },
+    });
+  });
+
+  await t.test('does not derive allowedValues for nested issues', () => {
+    const schema = z.object({ cabins: z.array(z.enum(['economy', 'business'])) });
+    assert.deepEqual(failureOf(schema, { cabins: ['first'] }), {
+      ok: false,
+      validationResults: {
+        cabins: {
+          valid: false,
+          problems: ['0: Invalid option: expected one of "economy"|"business"'],
+        },
+      },
+    });
+  });
+
+  await t.test('falls back to problems for root-level issues', () => {
+    assert.deepEqual(
+      failureOf(bookingSchema, { cabin: 'economy', seats: 1, passengers: [], extra: true }),
+      { ok: false, problems: ['Unrecognized key: "extra"'] },
+    );
+    assert.deepEqual(failureOf(bookingSchema, 'economy'), {
+      ok: false,
+      problems: ['Invalid input: expected object, received string'],
+    });
+  });
+
+  await t.test('non-record inputs', () => {
+    const cabinSchema = z.enum(['economy', 'business']);
+    const failure = failureOf(cabinSchema, 'first');
+    assert.deepEqual(failure, {
+      ok: false,
+      problems: ['Invalid option: expected one of "economy"|"business"'],
+      allowedValues: ['economy', 'business'],
+    });
+    mkTool2AgentSchema(cabinSchema, z.string()).parse(failure);
+
+    assert.deepEqual(failureOf(z.array(z.string()), ['a', 1]), {
+      ok: false,
+      problems: ['1: Invalid input: expected string, received number'],
+    });
+  });
+
+  await t.test('unions of objects', () => {
+    const travelSchema = z.discriminatedUnion('kind', [
+      z.object({ kind: z.literal('flight'), from: z.string() }),
+      z.object({ kind: z.literal('hotel'), city: z.string() }),
+    ]);
+    const failure = failureOf(travelSchema, { kind: 'hotel' });
+    assert.deepEqual(failure, {
+      ok: false,
+      validationResults: {
+        city: { valid: false, problems: ['Invalid input: expected string, received undefined'] },
+      },
+    });
+    mkTool2AgentSchema(travelSchema, z.string()).parse(failure);
+  });
+});
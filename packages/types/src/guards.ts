@@ -0,0 +1,308 @@
+import type {
+  ToolCallResult,
+  ToolCallSuccess,
+  ToolCallFailure,
+  ToolCallConfirmationRequired,
+  ParameterValidationResult,
+} from './tool2agent.js';
+
+// Runtime checks for the protocol invariants.
+// This module must stay dependency-free: it is the only runtime code in this package.
+
+type UnknownRecord = Record<string, unknown>;
+
+/** Error message for the first violated invariant, or undefined if the value is valid. */
+type Violation = string | undefined;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkNonEmptyArray(
+  value: unknown,
+  path: string,
+  checkItem: (item: unknown, itemPath: string) => Violation,
+): Violation {
+  if (!Array.isArray(value)) return `${path} must be an array`;
+  if (value.length === 0) return `${path} must not be empty`;
+  for (const [index, item] of value.entries()) {
+    const violation = checkItem(item, `${path}[${index}]`);
+    if (violation) return violation;
+  }
+  return undefined;
+}
+
+function checkString(value: unknown, path: string): Violation {
+  return typeof value === 'string' ? undefined : `${path} must be a string`;
+}
+
+function checkProblem(value: unknown, path: string): Violation {
+  if (typeof value === 'string') return undefined;
+  if (!isRecord(value)) return `${path} must be a string or a { code, message } object`;
+  return (
+    checkString(value.code, `${path}.code`) ??
+    checkString(value.message, `${path}.message`) ??
+    (value.params === undefined || isRecord(value.params)
+      ? undefined
+      : `${path}.params must be an object`)
+  );
+}
+
+/** Checks an optional field, if it is present. */
+function checkOptional(
+  record: UnknownRecord,
+  key: string,
+  path: string,
+  check: (value: unknown, path: string) => Violation,
+): Violation {
+  return record[key] === undefined ? undefined : check(record[key], `${path}.${key}`);
+}
+
+function checkFeedbackAndInstructions(record: UnknownRecord, path: string): Violation {
+  const checkStrings = (value: unknown, fieldPath: string) =>
+    checkNonEmptyArray(value, fieldPath, checkString);
+  return (
+    checkOptional(record, 'feedback', path, checkStrings) ??
+    checkOptional(record, 'instructions', path, (value, fieldPath) =>
+      checkNonEmptyArray(value, fieldPath, checkInstruction),
+    ) ??
+    checkOptional(record, 'relatedTools', path, (value, fieldPath) =>
+      checkNonEmptyArray(value, fieldPath, checkToolReference),
+    )
+  );
+}
+
+function checkInstruction(value: unknown, path: string): Violation {
+  if (typeof value === 'string') return undefined;
+  if (!isRecord(value)) return `${path} must be a string or a { kind } object`;
+  switch (value.kind) {
+    case 'ask_user':
+      return (
+        checkString(value.question, `${path}.question`) ??
+        checkOptional(value, 'options', path, (options, fieldPath) =>
+          checkNonEmptyArray(options, fieldPath, checkString),
+        )
+      );
+    case 'call_tool':
+      return (
+        checkString(value.toolName, `${path}.toolName`) ??
+        checkOptional(value, 'reason', path, checkString)
+      );
+    case 'stop_and_report':
+      return checkString(value.message, `${path}.message`);
+    case 'retry':
+      return checkOptional(value, 'message', path, checkString);
+    default:
+      return `${path}.kind must be one of ask_user, call_tool, stop_and_report, retry`;
+  }
+}
+
+function checkToolReference(value: unknown, path: string): Violation {
+  if (!isRecord(value)) return `${path} must be a { toolName, relation } object`;
+  return (
+    checkString(value.toolName, `${path}.toolName`) ??
+    (value.relation === 'prerequisite' || value.relation === 'followUp'
+      ? undefined
+      : `${path}.relation must be prerequisite or followUp`) ??
+    checkOptional(value, 'reason', path, checkString)
+  );
+}
+
+function checkAnnotatedSuggestion(value: unknown, path: string): Violation {
+  if (!isRecord(value) || !('value' in value)) return `${path} must be a { value } object`;
+  return (
+    checkOptional(value, 'label', path, checkString) ??
+    checkOptional(value, 'description', path, checkString) ??
+    (value.score === undefined || typeof value.score === 'number'
+      ? undefined
+      : `${path}.score must be a number`)
+  );
+}
+
+/** AcceptableValues, normalizedValue, dynamicParameterSchema and freeform feedback. */
+function checkCommonFailureFeedback(record: UnknownRecord, path: string): Violation {
+  const acceptableValuesKeys = ['allowedValues', 'suggestedValues', 'annotatedSuggestions'].filter(
+    key => record[key] !== undefined,
+  );
+  if (acceptableValuesKeys.length > 1) {
+    return `${path} must not have both ${acceptableValuesKeys.join(' and ')}`;
+  }
+  if (record.allowedValues !== undefined && !Array.isArray(record.allowedValues)) {
+    return `${path}.allowedValues must be an array`;
+  }
+  if (record.dynamicParameterSchema !== undefined && !isRecord(record.dynamicParameterSchema)) {
+    return `${path}.dynamicParameterSchema must be a JSON Schema object`;
+  }
+  return (
+    checkOptional(record, 'suggestedValues', path, (value, fieldPath) =>
+      checkNonEmptyArray(value, fieldPath, () => undefined),
+    ) ??
+    checkOptional(record, 'annotatedSuggestions', path, (value, fieldPath) =>
+      checkNonEmptyArray(value, fieldPath, checkAnnotatedSuggestion),
+    ) ??
+    checkFeedbackAndInstructions(record, path)
+  );
+}
+
+function checkValidationResults(value: unknown, path: string): Violation {
+  if (!isRecord(value)) return `${path} must be an object`;
+  const keys = Object.keys(value);
+  if (keys.length === 0) return `${path} must have at least one entry`;
+  for (const key of keys) {
+    const violation = checkParameterValidationResult(value[key], `${path}.${key}`, key);
+    if (violation) return violation;
+  }
+  return undefined;
+}
+
+function checkParameterValidationResult(
+  value: unknown,
+  path: string,
+  paramKey?: string,
+): Violation {
+  if (!isRecord(value)) return `${path} must be an object`;
+  if (typeof value.valid !== 'boolean') return `${path}.valid must be a boolean`;
+  const violation =
+    checkCommonFailureFeedback(value, path) ??
+    checkOptional(value, 'validationResults', path, checkValidationResults);
+  if (violation) return violation;
+  if (value.valid) {
+    if (value.problems !== undefined || value.requiresValidParameters !== undefined) {
+      return `${path} is valid, so it must not have problems or requiresValidParameters`;
+    }
+    return undefined;
+  }
+  if (
+    value.problems === undefined &&
+    value.requiresValidParameters === undefined &&
+    value.validationResults === undefined
+  ) {
+    return `${path} is invalid, so it must have problems, requiresValidParameters or validationResults`;
+  }
+  return (
+    checkOptional(value, 'problems', path, (problems, fieldPath) =>
+      checkNonEmptyArray(problems, fieldPath, checkProblem),
+    ) ??
+    checkOptional(value, 'requiresValidParameters', path, (keys, fieldPath) =>
+      checkNonEmptyArray(keys, fieldPath, (key, keyPath) =>
+        key === paramKey
+          ? `${keyPath} must not refer to the parameter itself`
+          : checkString(key, keyPath),
+      ),
+    )
+  );
+}
+
+function checkRetryClassification(record: UnknownRecord, path: string): Violation {
+  if (record.retryable !== undefined && typeof record.retryable !== 'boolean') {
+    return `${path}.retryable must be a boolean`;
+  }
+  if (record.retryAfterMs === undefined) return undefined;
+  return typeof record.retryAfterMs === 'number' && record.retryAfterMs >= 0
+    ? undefined
+    : `${path}.retryAfterMs must be a non-negative number`;
+}
+
+function checkConfirmationRequired(record: UnknownRecord, path: string): Violation {
+  if (record.problems !== undefined || record.validationResults !== undefined) {
+    return `${path} requires confirmation, so it must not have problems or validationResults`;
+  }
+  const request = record.requiresConfirmation;
+  if (!isRecord(request)) return `${path}.requiresConfirmation must be an object`;
+  return (
+    checkString(request.summary, `${path}.requiresConfirmation.summary`) ??
+    checkString(request.token, `${path}.requiresConfirmation.token`) ??
+    checkFeedbackAndInstructions(record, path)
+  );
+}
+
+function checkInputNotes(value: unknown, path: string): Violation {
+  if (!isRecord(value)) return `${path} must be an object`;
+  for (const [key, notes] of Object.entries(value)) {
+    const violation = checkNonEmptyArray(notes, `${path}.${key}`, checkString);
+    if (violation) return violation;
+  }
+  return undefined;
+}
+
+function checkToolCallResult(value: unknown, path: string): Violation {
+  if (!isRecord(value)) return `${path} must be an object`;
+  if (value.ok === true) {
+    return (
+      checkOptional(value, 'inputNotes', path, checkInputNotes) ??
+      checkFeedbackAndInstructions(value, path)
+    );
+  }
+  if (value.ok !== false) return `${path}.ok must be true or false`;
+  if (value.requiresConfirmation !== undefined) return checkConfirmationRequired(value, path);
+  if (value.problems === undefined && value.validationResults === undefined) {
+    return `${path} is a failure, so it must have problems or validationResults`;
+  }
+  const violation =
+    checkOptional(value, 'problems', path, (problems, fieldPath) =>
+      checkNonEmptyArray(problems, fieldPath, checkProblem),
+    ) ??
+    checkRetryClassification(value, path) ??
+    checkFeedbackAndInstructions(value, path);
+  if (violation) return violation;
+  // Record inputs get per-field validation results, array inputs get per-index validation results
+  // next to the feedback for the whole input, other inputs only get the latter (ValueFailureFeedback).
+  return (
+    checkCommonFailureFeedback(value, path) ??
+    checkOptional(value, 'validationResults', path, checkValidationResults)
+  );
+}
+
+/**
+ * Checks whether a tool call result is a success.
+ * Only the `ok` discriminator is checked: use {@link assertToolCallResult} to validate the whole value.
+ */
+export function isToolCallSuccess<T extends { ok: unknown }>(
+  value: T,
+): value is Extract<T, { ok: true }>;
+export function isToolCallSuccess(value: unknown): value is ToolCallSuccess<never>;
+export function isToolCallSuccess(value: unknown): boolean {
+  return isRecord(value) && value.ok === true;
+}
+
+/**
+ * Checks whether a tool call result is a failure or a confirmation request, i.e. whether it was not executed.
+ * Only the `ok` discriminator is checked: use {@link assertToolCallResult} to validate the whole value.
+ */
+export function isToolCallFailure<T extends { ok: unknown }>(
+  value: T,
+): value is Extract<T, { ok: false }>;
+export function isToolCallFailure(
+  value: unknown,
+): value is ToolCallFailure<UnknownRecord> | ToolCallConfirmationRequired;
+export function isToolCallFailure(value: unknown): boolean {
+  return isRecord(value) && value.ok === false;
+}
+
+/**
+ * Checks whether a value is a valid ParameterValidationResult, including nested validation results.
+ * Parameter names and values can not be checked without the input schema.
+ */
+export function isParameterValidationResult<
+  InputType extends Record<string, unknown> = UnknownRecord,
+  ParamKey extends keyof InputType = keyof InputType,
+>(value: unknown): value is ParameterValidationResult<InputType, ParamKey> {
+  return checkParameterValidationResult(value, 'value') === undefined;
+}
+
+/**
+ * Asserts that a value respects the tool2agent protocol invariants:
+ * the `ok` discriminator, non-empty arrays, at least one justification for every refusal,
+ * and at most one of `allowedValues` / `suggestedValues` / `annotatedSuggestions`.
+ * The shapes of input and output values are not checked, since they are not known at runtime.
+ * @param value - the value to check, e.g. a tool call result received over the wire
+ * @throws {TypeError} describing the first violated invariant
+ */
+export function assertToolCallResult<InputType = unknown, OutputType = unknown>(
+  value: unknown,
+): asserts value is ToolCallResult<InputType, OutputType> {
+  const violation = checkToolCallResult(value, 'result');
+  if (violation) {
+    throw new TypeError(`Invalid tool call result: ${violation}`);
+  }
+}
@@ -1,2 +1,3 @@
 export * from './types.js';
 export * from './tool2agent.js';
+export * from './guards.js';
@@ -4,16 +4,18 @@ import { AtLeastOne, AtMostOne, NonEmptyArray } from './types.js';
 /** The outermost type that characterizes the outcome of a tool call.
  */
 export type ToolCallResult<InputType, OutputType> =
-  | ToolCallSuccess<OutputType>
-  | ToolCallFailure<InputType>;
+  | ToolCallSuccess<OutputType, InputType>
+  | ToolCallFailure<InputType>
+  | ToolCallConfirmationRequired;
 
 /**
  * Accepted tool call.
  * Must contain ok: true, the rest of the fields, and (optionally) feedback and instructions.
+ * If InputType is provided, it may also report how the tool normalized the input.
  */
-export type ToolCallSuccess<OutputType> = {
+export type ToolCallSuccess<OutputType, InputType = never> = {
   ok: true;
-} &
+} & InputNormalization<InputType> &
   // If OutputType is never, we don't allow value fields at all.
   ([OutputType] extends [never]
     ? {}
@@ -24,6 +26,34 @@ export type ToolCallSuccess<OutputType> = {
         OutputAsRecord<OutputType>) &
   FeedbackAndInstructions;
 
+/**
+ * Tells the agent how the tool interpreted the input of an accepted call,
+ * e.g. that "nyc" became "New York", so that it can use canonical values from then on.
+ */
+export type InputNormalization<InputType> = {
+  /**
+   * For record inputs, the fields that the tool normalized to a canonical form, with their normalized values.
+   * For other inputs, the input normalized to a canonical form.
+   */
+  normalizedInput?: NormalizedInput<InputType>;
+  /** Freeform notes on how the tool interpreted individual fields of a record input */
+  inputNotes?: InputNotes<InputType>;
+};
+
+// The conditionals are property types rather than the whole InputNormalization,
+// so that generic code can still construct successes without normalization.
+export type NormalizedInput<InputType> = [InputType] extends [never]
+  ? never
+  : [InputType] extends [Record<string, unknown>]
+    ? Partial<InputType>
+    : InputType;
+
+export type InputNotes<InputType> = [InputType] extends [never]
+  ? never
+  : [InputType] extends [Record<string, unknown>]
+    ? { [K in keyof InputType]?: NonEmptyArray<string> }
+    : never;
+
 /**
  * If OutputType is a record, we use it directly.
  * Otherwise, we wrap it in a value field.
@@ -37,11 +67,69 @@ export type OutputAsRecord<OutputType> = [OutputType] extends [Record<string, un
 export type FeedbackAndInstructions = {
   /** Freeform feedback for the tool call. */
   feedback?: NonEmptyArray<string>;
-  /** Freeform instructions for the agent in response to the tool call.
+  /** Instructions for the agent in response to the tool call.
    * The developer may instruct the agent to follow these instructions via the system prompt,
-   * or filter them out.
+   * or filter them out by kind.
+   */
+  instructions?: NonEmptyArray<Instruction>;
+  /**
+   * Other tools the agent should call, e.g. `search_flights` before `book_flight`.
+   * Unlike instructions, these can be acted upon by agent loops programmatically.
    */
-  instructions?: NonEmptyArray<string>;
+  relatedTools?: NonEmptyArray<ToolReference>;
+};
+
+/**
+ * An instruction for the agent.
+ * Either freeform text, or a typed entry that UIs and middleware can act upon.
+ */
+export type Instruction = string | InstructionDetail;
+
+/** Typed instruction entry, discriminated by `kind`. */
+export type InstructionDetail =
+  | {
+      /** Ask the user a question before going on */
+      kind: 'ask_user';
+      question: string;
+      /** Answers to offer to the user */
+      options?: NonEmptyArray<string>;
+    }
+  | {
+      /** Call another tool */
+      kind: 'call_tool';
+      toolName: string;
+      /** Input to call the tool with, as far as it is known */
+      suggestedInput?: unknown;
+      /** Why the tool should be called */
+      reason?: string;
+    }
+  | {
+      /** Stop calling tools and report the message to the user */
+      kind: 'stop_and_report';
+      message: string;
+    }
+  | {
+      /** Repeat the tool call, with the changes described in the message, if any */
+      kind: 'retry';
+      message?: string;
+    };
+
+/**
+ * Reference to another tool that the agent should call.
+ * @template ToolName - Names of the tools available to the agent
+ */
+export type ToolReference<ToolName extends string = string> = {
+  /** Name of the tool, as known to the agent */
+  toolName: ToolName;
+  /**
+   * prerequisite: call the referenced tool before repeating this call.
+   * followUp: call the referenced tool after this call.
+   */
+  relation: 'prerequisite' | 'followUp';
+  /** Input to call the referenced tool with, as far as it is known */
+  suggestedInput?: unknown;
+  /** Why the referenced tool should be called */
+  reason?: string;
 };
 
 /**
@@ -53,21 +141,131 @@ export type FeedbackAndInstructions = {
  */
 export type ToolCallFailure<InputType> = {
   ok: false;
+  /** Failures are not confirmation requests, see {@link ToolCallConfirmationRequired}. */
+  requiresConfirmation?: never;
 } & FailureFeedback<InputType> &
+  RetryClassification &
   FeedbackAndInstructions;
 
+/**
+ * Tool call that was not executed because it needs a human confirmation first,
+ * e.g. for destructive actions like cancelling a booking or sending money.
+ * The agent should show the summary to the user, and once the user agrees,
+ * repeat the same call with the confirmation token.
+ */
+export type ToolCallConfirmationRequired = {
+  ok: false;
+  requiresConfirmation: ConfirmationRequest;
+  /** The input is not at fault, so there is no refusal feedback. */
+  problems?: never;
+  validationResults?: never;
+} & FeedbackAndInstructions;
+
+export type ConfirmationRequest = {
+  /** Human-readable summary of what the tool call is going to do. */
+  summary: string;
+  /** Opaque token that confirms this exact tool call. */
+  token: string;
+};
+
+/**
+ * Tells transient failures (e.g. a backend hiccup) apart from permanent ones (e.g. invalid input),
+ * so that retry middleware and agent loops can decide whether to repeat the same call.
+ */
+export type RetryClassification = {
+  /**
+   * Whether the same call may succeed if repeated later.
+   * `false` means that the input has to change. Omitted means that the tool does not know.
+   */
+  retryable?: boolean;
+  /** How long to wait before repeating the call, in milliseconds. Only meaningful for retryable failures. */
+  retryAfterMs?: number;
+};
+
+/**
+ * Outcome of a tool call that has started a long-running job instead of completing immediately.
+ * The agent is expected to check back later, e.g. using a companion status tool that accepts the `jobId`.
+ */
+export type ToolCallPending = {
+  ok: 'pending';
+  /** Opaque identifier of the job. The agent passes it back to check on the job status. */
+  jobId: string;
+  /** Hint for how long the agent should wait before checking on the job again, in milliseconds. */
+  pollAfterMs?: number;
+  /** Fraction of the job that has been completed so far, from 0 to 1. */
+  progress?: number;
+} & FeedbackAndInstructions;
+
+/**
+ * Outcome of a tool call that may complete asynchronously.
+ * Tools that never start long-running jobs should use {@link ToolCallResult} instead.
+ */
+export type AsyncToolCallResult<InputType, OutputType> =
+  | ToolCallResult<InputType, OutputType>
+  | ToolCallPending;
+
+/**
+ * Preliminary update of a tool call that is still running, e.g. how many flights have been checked so far.
+ * Streaming tools emit any number of updates before the final {@link ToolCallResult}.
+ * The agent should not act on an update: the call is only complete once the final result arrives.
+ */
+export type ToolCallProgress<ProgressType> = {
+  ok: 'progress';
+  /** Tool-specific description of the progress so far. */
+  update: ProgressType;
+};
+
+/**
+ * Item of the output stream of a streaming tool call:
+ * progress updates ({@link ToolCallProgress}), followed by the final {@link ToolCallResult}.
+ */
+export type StreamingToolCallResult<InputType, OutputType, ProgressType> =
+  | ToolCallResult<InputType, OutputType>
+  | ToolCallProgress<ProgressType>;
+
+/**
+ * Outcome of a tool call that processed the items of a batch individually, where at least one item was rejected.
+ * Every item gets its own result, in input order, so that the agent can retry only the rejected items.
+ */
+export type ToolCallPartialSuccess<ItemInputType, ItemOutputType> = {
+  ok: 'partial';
+  /** Per-item outcomes, in the same order as the items of the input. */
+  items: NonEmptyArray<ToolCallResult<ItemInputType, ItemOutputType>>;
+} & FeedbackAndInstructions;
+
+/**
+ * Output of a batch tool call where every item was accepted.
+ */
+export type BatchOutput<ItemOutputType, ItemInputType = never> = {
+  /** Per-item outcomes, in the same order as the items of the input. */
+  items: ToolCallSuccess<ItemOutputType, ItemInputType>[];
+};
+
+/**
+ * Outcome of a tool call that takes a batch of items.
+ * - `ok: true`: every item was accepted
+ * - `ok: false`: the batch as a whole was rejected, with feedback for the entire input
+ * - `ok: 'partial'`: items were processed individually, and at least one of them was rejected
+ */
+export type BatchToolCallResult<InputType, ItemInputType, ItemOutputType> =
+  | ToolCallResult<InputType, BatchOutput<ItemOutputType, ItemInputType>>
+  | ToolCallPartialSuccess<ItemInputType, ItemOutputType>;
+
 export type FailureFeedback<InputType> =
   /** If InputType is a record, we can provide feedback for its fields. */
   [InputType] extends [Record<string, unknown>]
     ? /** We require at least one actionable validation result to be present. */
       RecordFailureFeedback<InputType>
-    : /** If InputType is not a record, we provide feedback for the entire input.
-       * In this case, `problems` field becomes required, and `validationResults` is not allowed,
-       * because there is only a single field.
-       * We do not include `requiresValidParameters` because it is not applicable to non-record inputs,
-       * since it references other record fields.
-       */
-      ValueFailureFeedback<InputType>;
+    : /** If InputType is an array, we can provide feedback for its items, keyed by index. */
+      [InputType] extends [readonly unknown[]]
+      ? ArrayFailureFeedback<InputType>
+      : /** Otherwise, we provide feedback for the entire input.
+         * In this case, `problems` field becomes required, and `validationResults` is not allowed,
+         * because there is only a single field.
+         * We do not include `requiresValidParameters` because it is not applicable to non-record inputs,
+         * since it references other record fields.
+         */
+        ValueFailureFeedback<InputType>;
 
 export type RecordFailureFeedback<InputType extends Record<string, unknown>> = AtLeastOne<{
   /**
@@ -75,12 +273,23 @@ export type RecordFailureFeedback<InputType extends Record<string, unknown>> = A
    * but we require at least one to ensure the LLM can make some progress
    * on refining input.
    */
-  validationResults: AtLeastOne<{
-    [ParamKey in keyof InputType]?: ParameterValidationResult<InputType, ParamKey>;
-  }>;
-  problems: NonEmptyArray<string>;
+  validationResults: FieldValidationResults<InputType>;
+  problems: NonEmptyArray<Problem>;
 }>;
 
+/**
+ * Failure feedback for array inputs.
+ * Besides the feedback for the entire input, every offending item can get its own validation result,
+ * so that the agent knows which items to fix. `requiresValidParameters` is not applicable to items.
+ */
+export type ArrayFailureFeedback<InputType extends readonly unknown[]> =
+  CommonFailureFeedback<InputType> &
+    AtLeastOne<{
+      /** Validation feedback for individual items, keyed by item index. */
+      validationResults: ItemValidationResults<InputType[number]>;
+      problems: NonEmptyArray<Problem>;
+    }>;
+
 export type ParameterValidationResult<
   InputType extends Record<string, unknown>,
   ParamKey extends keyof InputType,
@@ -88,16 +297,83 @@ export type ParameterValidationResult<
   (
     | {
         valid: true;
+        /** Validation feedback for the fields or items of the parameter value. */
+        validationResults?: NestedValidationResults<InputType[ParamKey]>;
       }
     | ({
         valid: false;
       } & ParameterValidationFailureReasons<InputType, ParamKey>)
   );
 
+/**
+ * Validation results for the parts of a value.
+ * Object values may get feedback for their fields, and array values may get feedback for their items,
+ * keyed by item index. Other values have no parts, so no nested validation results are allowed.
+ */
+export type NestedValidationResults<T> = [NonNullable<T>] extends [readonly unknown[]]
+  ? ItemValidationResults<NonNullable<T>[number]>
+  : [NonNullable<T>] extends [Record<string, unknown>]
+    ? FieldValidationResults<NonNullable<T>>
+    : never;
+
+/**
+ * Validation feedback for the fields of an object. At least one field must be present.
+ * For unions of objects (e.g. discriminated unions), the feedback refers to the fields of a single member,
+ * so that `requiresValidParameters` may only name the fields of that member.
+ */
+export type FieldValidationResults<InputType extends Record<string, unknown>> =
+  InputType extends unknown
+    ? AtLeastOne<{
+        [ParamKey in keyof InputType]?: ParameterValidationResult<InputType, ParamKey>;
+      }>
+    : never;
+
+/**
+ * Validation feedback for the items of an array, keyed by item index.
+ * Only the items that need feedback have to be present.
+ */
+export type ItemValidationResults<ItemType> = {
+  [index: number]: ItemValidationResult<ItemType>;
+};
+
+/** Validation result for a single item of an array. */
+export type ItemValidationResult<ItemType> = CommonFailureFeedback<ItemType> &
+  (
+    | {
+        valid: true;
+        /** Validation feedback for the fields or items of the item value. */
+        validationResults?: NestedValidationResults<ItemType>;
+      }
+    | ({
+        valid: false;
+      } & AtLeastOne<{
+        /** Reasons for why the item was not considered valid. */
+        problems?: NonEmptyArray<Problem>;
+        /** Validation feedback for the fields or items of the item value. */
+        validationResults?: NestedValidationResults<ItemType>;
+      }>)
+  );
+
 export type ValueFailureFeedback<InputType> = {
-  problems: NonEmptyArray<string>;
+  problems: NonEmptyArray<Problem>;
 } & CommonFailureFeedback<InputType>;
 
+/**
+ * A reason for refusing a tool call or a parameter value.
+ * Either freeform text, or a machine-readable entry that middleware and analytics can match on.
+ */
+export type Problem = string | ProblemDetail;
+
+/** Machine-readable problem entry. */
+export type ProblemDetail = {
+  /** Stable identifier of the problem, e.g. `seat_unavailable`. */
+  code: string;
+  /** Human-readable description of the problem. */
+  message: string;
+  /** Values the problem refers to, e.g. `{ seat: '12A' }`. */
+  params?: Record<string, unknown>;
+};
+
 /**
  * Feedback for a single tool call parameter.
  */
@@ -107,11 +383,22 @@ export type CommonFailureFeedback<T> = {
   /**
    * The tooling may dynamically validate the parameter based on the context
    * This is useful for parameters whose shape is not statically known at design time
+   *
+   * Tools return a Zod schema. Bindings convert it to JSON Schema when the result leaves the tool,
+   * because Zod schemas do not survive JSON encoding.
    */
-  dynamicParameterSchema?: ZodType<T>;
+  dynamicParameterSchema?: ZodType<T> | JsonSchema;
 } & AcceptableValues<T> &
   FeedbackAndInstructions;
 
+/**
+ * JSON Schema document, as produced by `z.toJSONSchema()`.
+ * This is the wire form of `dynamicParameterSchema`.
+ */
+export type JsonSchema = {
+  [keyword: string]: unknown;
+};
+
 /** Provides feedback that suggests acceptable values for the parameter. */
 export type AcceptableValues<T> = AtMostOne<{
   /**
@@ -121,19 +408,40 @@ export type AcceptableValues<T> = AtMostOne<{
   allowedValues: T[];
   /** Non-exhaustive list of acceptable values */
   suggestedValues: NonEmptyArray<T>;
+  /**
+   * Non-exhaustive list of acceptable values, annotated for the agent.
+   * Use it instead of suggestedValues when a bare value is not enough to choose from.
+   */
+  annotatedSuggestions: NonEmptyArray<AnnotatedSuggestion<T>>;
 }>;
 
-/** Refusal result for a single tool call input object field. Mandates at least one justification for the refusal. */
+/** Suggested value with context that helps the agent choose it, e.g. "Paris (CDG, 3 flights left)". */
+export type AnnotatedSuggestion<T> = {
+  value: T;
+  /** Short human-readable name of the value */
+  label?: string;
+  /** Additional context, e.g. availability or price */
+  description?: string;
+  /** Relevance of the suggestion. Higher is better. */
+  score?: number;
+};
+
+/**
+ * Refusal result for a single tool call input object field. Mandates at least one justification for the refusal.
+ * For object and array values, nested validation results for the offending fields or items count as a justification.
+ */
 export type ParameterValidationFailureReasons<
   InputType extends Record<string, unknown>,
   ParamKey extends keyof InputType,
 > = AtLeastOne<{
-  /** Freeform reasons for why the parameter was not considered valid. */
-  problems?: NonEmptyArray<string>;
+  /** Reasons for why the parameter was not considered valid. */
+  problems?: NonEmptyArray<Problem>;
   /**
    * Sometimes it is not possible to validate a parameter without knowing the values of other parameters.
    * In this case, the developer may specify the parameters that are required to validate this parameter,
    * excluding the parameter itself on the type level.
    */
   requiresValidParameters?: NonEmptyArray<Exclude<keyof InputType, ParamKey>>;
+  /** Validation feedback for the fields or items of the parameter value. */
+  validationResults?: NestedValidationResults<InputType[ParamKey]>;
 }>;
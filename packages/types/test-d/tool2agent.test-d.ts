@@ -6,6 +6,14 @@ import {
   type AcceptableValues,
   type ValueFailureFeedback,
   CommonFailureFeedback,
+  type ToolCallPending,
+  type AsyncToolCallResult,
+  type ToolCallPartialSuccess,
+  type BatchToolCallResult,
+  type ItemValidationResult,
+  type ToolCallResult,
+  type ToolReference,
+  type Instruction,
 } from '../src/tool2agent.js';
 import * as z from 'zod';
 
@@ -107,6 +115,38 @@ const emptyFeedback: [] = [];
 // @ts-expect-error - empty array cannot be NonEmptyArray
 checkFeedback({ ok: true, value: { name: 'John', age: 30 }, feedback: emptyFeedback });
 
+// ==================== Input Normalization Tests ====================
+
+type TripInput = { city: string; passengers: number };
+type TripOutput = { tripId: string };
+
+// Valid: Success reports the normalized fields and notes
+const validNormalized: ToolCallResult<TripInput, TripOutput> = {
+  ok: true,
+  tripId: 't-1',
+  normalizedInput: { city: 'New York' },
+  inputNotes: { city: ['"nyc" was interpreted as New York'] },
+};
+
+// Valid: Non-record inputs are normalized as a whole
+const validNormalizedValue: ToolCallSuccess<TripOutput, string> = {
+  ok: true,
+  tripId: 't-1',
+  normalizedInput: 'New York',
+};
+
+function checkTripSuccess(x: ToolCallSuccess<TripOutput, TripInput>) {}
+// @ts-expect-error - normalized values must match the input fields
+checkTripSuccess({ ok: true, tripId: 't-1', normalizedInput: { city: 1 } });
+// @ts-expect-error - notes can only refer to input fields
+checkTripSuccess({ ok: true, tripId: 't-1', inputNotes: { country: ['Unknown'] } });
+// @ts-expect-error - notes cannot be empty
+checkTripSuccess({ ok: true, tripId: 't-1', inputNotes: { city: [] } });
+
+function checkSuccessWithoutInput(x: ToolCallSuccess<TripOutput>) {}
+// @ts-expect-error - without InputType, there is nothing to normalize
+checkSuccessWithoutInput({ ok: true, tripId: 't-1', normalizedInput: { city: 'New York' } });
+
 // ==================== ToolCallRejected Tests ====================
 
 // Valid: Rejected with validation results
@@ -209,6 +249,172 @@ const emptyRequires: [] = [];
 // @ts-expect-error - empty array cannot be NonEmptyArray
 checkParamFeedback({ valid: false, requiresValidParameters: emptyRequires });
 
+// ==================== Nested ValidationResults Tests ====================
+
+type NestedParams = {
+  passenger: {
+    name: string;
+    passport?: { number: string; country: string };
+  };
+  stops?: { airport: string }[];
+  tags: string[];
+};
+
+// Valid: Feedback for a nested object field
+const validNestedField: ToolCallFailure<NestedParams> = {
+  ok: false,
+  validationResults: {
+    passenger: {
+      valid: false,
+      validationResults: {
+        passport: {
+          valid: false,
+          validationResults: {
+            number: { valid: false, problems: ['Passport number is expired'] },
+          },
+        },
+      },
+    },
+  },
+};
+
+// Valid: Feedback for individual array items, keyed by index
+const validNestedItems: ToolCallFailure<NestedParams> = {
+  ok: false,
+  validationResults: {
+    stops: {
+      valid: false,
+      validationResults: {
+        1: {
+          valid: false,
+          validationResults: {
+            airport: { valid: false, problems: ['Unknown airport'], suggestedValues: ['LHR'] },
+          },
+        },
+      },
+    },
+    tags: {
+      valid: false,
+      validationResults: { 0: { valid: false, problems: ['Tag is too long'] } },
+    },
+  },
+};
+
+// Valid: requiresValidParameters refers to sibling fields of the nested object
+const validNestedRequires: ParameterValidationResult<NestedParams, 'passenger'> = {
+  valid: false,
+  validationResults: {
+    passport: { valid: false, requiresValidParameters: ['name'] },
+  },
+};
+
+const invalidNestedRequires: ParameterValidationResult<NestedParams, 'passenger'> = {
+  valid: false,
+  validationResults: {
+    // @ts-expect-error - requiresValidParameters must refer to fields of the nested object
+    passport: { valid: false, requiresValidParameters: ['stops'] },
+  },
+};
+
+// Invalid: Unknown nested field
+const invalidNestedKey: ParameterValidationResult<NestedParams, 'passenger'> = {
+  valid: true,
+  validationResults: {
+    // @ts-expect-error - nested validation results are keyed by fields of the nested object
+    seat: { valid: true },
+  },
+};
+
+// Invalid: Primitive values have no nested validation results
+const invalidNestedPrimitive: ParameterValidationResult<TestParams, 'name'> = {
+  valid: false,
+  problems: ['Name contains invalid characters'],
+  // @ts-expect-error - strings have no fields or items
+  validationResults: { 0: { valid: true } },
+};
+
+// Invalid: Invalid item without any justification
+function checkItemResult(x: ItemValidationResult<string>) {}
+// @ts-expect-error - invalid item must have problems
+checkItemResult({ valid: false });
+
+// ==================== Confirmation Tests ====================
+
+// Valid: Confirmation required for a destructive call
+const validConfirmation: ToolCallResult<TestParams, { id: string }> = {
+  ok: false,
+  requiresConfirmation: { summary: 'Delete the account of John', token: 'tok-1' },
+  instructions: ['Ask the user to confirm'],
+};
+
+// Valid: Confirmation is not a success, so output fields are only available after narrowing
+function readConfirmation(result: ToolCallResult<TestParams, { id: string }>) {
+  if (result.ok) {
+    const id: string = result.id;
+  } else if (result.requiresConfirmation) {
+    const token: string = result.requiresConfirmation.token;
+  }
+}
+
+// Invalid: Confirmation request without a token
+function checkConfirmation(x: ToolCallResult<TestParams, { id: string }>) {}
+// @ts-expect-error - token is required
+checkConfirmation({ ok: false, requiresConfirmation: { summary: 'Delete John' } });
+
+// Invalid: Confirmation request with refusal feedback
+const confirmation = { summary: 'Delete John', token: 'tok-1' };
+// @ts-expect-error - confirmation requests do not carry problems
+checkConfirmation({ ok: false, requiresConfirmation: confirmation, problems: ['Sure?'] });
+
+// ==================== Retry Classification Tests ====================
+
+// Valid: Transient failure with a retry hint
+const validRetryable: ToolCallFailure<TestParams> = {
+  ok: false,
+  problems: ['Booking service is temporarily unavailable'],
+  retryable: true,
+  retryAfterMs: 5000,
+};
+
+// Valid: Permanent failure
+const validPermanent: ToolCallFailure<string> = {
+  ok: false,
+  problems: ['Unknown city'],
+  retryable: false,
+};
+
+// Invalid: Retry classification is a boolean
+function checkRetryClassification(x: ToolCallFailure<TestParams>) {}
+// @ts-expect-error - retryable must be a boolean
+checkRetryClassification({ ok: false, problems: ['Unknown city'], retryable: 'yes' });
+
+// ==================== Problem Codes Tests ====================
+
+// Valid: Structured problems mixed with freeform problems
+const validRejectedWithCodes: ToolCallFailure<TestParams> = {
+  ok: false,
+  problems: [
+    'System is under maintenance',
+    { code: 'rate_limited', message: 'Too many requests', params: { retryAfterSeconds: 30 } },
+  ],
+  validationResults: {
+    age: { valid: false, problems: [{ code: 'too_young', message: 'Must be 18 or older' }] },
+  },
+};
+
+// Valid: Structured problems for non-record inputs
+const validValueRejectedWithCodes: ToolCallFailure<string> = {
+  ok: false,
+  problems: [{ code: 'empty_query', message: 'Query can not be empty' }],
+};
+
+// Invalid: Structured problem without a message
+const invalidProblemNoMessage: ToolCallFailure<string> = {
+  ok: false,
+  // @ts-expect-error - message is required
+  problems: [{ code: 'empty_query' }],
+};
+
 // ==================== AcceptableValues Tests ====================
 
 // Valid: No acceptable values specified
@@ -242,6 +448,30 @@ const emptySuggested: [] = [];
 // @ts-expect-error - empty array cannot be NonEmptyArray
 checkAcceptable({ suggestedValues: emptySuggested });
 
+// Valid: Annotated suggestions
+const validAcceptableAnnotated: AcceptableValues<string> = {
+  annotatedSuggestions: [
+    { value: 'CDG', label: 'Paris', description: '3 flights left', score: 0.9 },
+    { value: 'ORY' },
+  ],
+};
+
+// Invalid: Annotated suggestions are not combined with other acceptable values
+// @ts-expect-error - at most one of allowedValues, suggestedValues or annotatedSuggestions
+checkAcceptable({ suggestedValues: ['CDG'], annotatedSuggestions: [{ value: 'ORY' }] });
+
+// Invalid: Annotated suggestion values must match the parameter type
+// @ts-expect-error - value must be a string
+checkAcceptable({ annotatedSuggestions: [{ value: 1, label: 'Paris' }] });
+
+// Invalid: Annotated suggestions must carry a value
+// @ts-expect-error - value is required
+checkAcceptable({ annotatedSuggestions: [{ label: 'Paris' }] });
+
+// Invalid: Empty annotated suggestions
+// @ts-expect-error - empty array cannot be NonEmptyArray
+checkAcceptable({ annotatedSuggestions: emptySuggested });
+
 // ==================== FreeFormFeedback Tests ====================
 
 // Valid: No feedback
@@ -267,6 +497,75 @@ const emptyInstructions: [] = [];
 // @ts-expect-error - empty array cannot be NonEmptyArray
 checkFreeForm({ instructions: emptyInstructions });
 
+// ==================== Instruction Kinds Tests ====================
+
+// Valid: Freeform and typed instructions can be mixed
+const validTypedInstructions: FeedbackAndInstructions = {
+  instructions: [
+    'Check the spelling',
+    { kind: 'ask_user', question: 'Which Paris?', options: ['France', 'Texas'] },
+    { kind: 'call_tool', toolName: 'search_cities', suggestedInput: { query: 'Paris' } },
+    { kind: 'stop_and_report', message: 'The city is not served' },
+    { kind: 'retry' },
+  ],
+};
+
+// Valid: Instructions narrow by kind
+function renderQuestion(instruction: Instruction): string | undefined {
+  if (typeof instruction !== 'string' && instruction.kind === 'ask_user') {
+    return instruction.question;
+  }
+  return undefined;
+}
+
+// @ts-expect-error - unknown instruction kind
+checkFreeForm({ instructions: [{ kind: 'dance' }] });
+
+// @ts-expect-error - ask_user requires a question
+checkFreeForm({ instructions: [{ kind: 'ask_user' }] });
+
+// @ts-expect-error - stop_and_report requires a message
+checkFreeForm({ instructions: [{ kind: 'stop_and_report', question: 'Why?' }] });
+
+// ==================== Related Tools Tests ====================
+
+// Valid: A failure that points at a prerequisite tool
+const validRelatedTools: ToolCallFailure<TestParams> = {
+  ok: false,
+  problems: ['Unknown flight'],
+  relatedTools: [
+    {
+      toolName: 'search_flights',
+      relation: 'prerequisite',
+      suggestedInput: { from: 'JFK' },
+      reason: 'Find a flight number first',
+    },
+  ],
+};
+
+// Valid: A success that points at a follow-up tool
+const validFollowUp: ToolCallSuccess<{ id: string }> = {
+  ok: true,
+  id: '1',
+  relatedTools: [{ toolName: 'send_receipt', relation: 'followUp' }],
+};
+
+// Valid: Tool names can be narrowed to the known tools
+const validKnownTool: ToolReference<'search_flights' | 'book_flight'> = {
+  toolName: 'search_flights',
+  relation: 'prerequisite',
+};
+
+// @ts-expect-error - only known tools can be referenced
+const invalidKnownTool: ToolReference<'search_flights'> = { toolName: 'x', relation: 'followUp' };
+
+// @ts-expect-error - relation must be prerequisite or followUp
+checkFreeForm({ relatedTools: [{ toolName: 'search_flights', relation: 'before' }] });
+
+const emptyRelatedTools: [] = [];
+// @ts-expect-error - empty array cannot be NonEmptyArray
+checkFreeForm({ relatedTools: emptyRelatedTools });
+
 // =========================== Dynamic parameter schema ================
 
 const schema = z.object({
@@ -313,6 +612,21 @@ const invalidPfDog: CommonFailureFeedback<Dog> = {
   dynamicParameterSchema: animalSchema,
 };
 
+// Valid: JSON Schema is the wire form of the dynamic schema, e.g. as produced by z.toJSONSchema()
+const pfJsonSchema: CommonFailureFeedback<JustType> = {
+  dynamicParameterSchema: {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    type: 'object',
+    properties: { field: { type: 'string', enum: ['a', 'b'] }, another: { type: 'string' } },
+    required: ['field', 'another'],
+    additionalProperties: false,
+  },
+};
+
+const pfJsonSchemaLiteral: CommonFailureFeedback<JustType> = {
+  dynamicParameterSchema: { type: 'object', properties: { field: { enum: ['a', 'b'] } } },
+};
+
 // ==================== Empty output schema ====================
 
 const emptyOutputSchema = z.never();
@@ -496,3 +810,168 @@ const invalidRejectedStringWithValidation: ToolCallFailure<string> = {
   // @ts-expect-error - validationResults does not exist in ToolCallRejected for non-record inputs
   validationResults: {},
 };
+
+// ==================== ToolCallRejected with Array Input Types ====================
+
+type Passenger = { name: string; age: number };
+
+// Valid: Rejected with per-item feedback, keyed by index
+const validRejectedItems: ToolCallFailure<Passenger[]> = {
+  ok: false,
+  validationResults: {
+    1: {
+      valid: false,
+      validationResults: { age: { valid: false, problems: ['Must be an adult'] } },
+    },
+    2: { valid: false, problems: ['Duplicate passenger'] },
+  },
+};
+
+// Valid: Per-item feedback can come with whole-input feedback
+const validRejectedItemsWithProblems: ToolCallFailure<string[]> = {
+  ok: false,
+  problems: ['Too many codes'],
+  validationResults: { 0: { valid: false, problems: ['Unknown code'], suggestedValues: ['CDG'] } },
+};
+
+function expectRejectedItems(x: ToolCallFailure<Passenger[]>) {}
+// @ts-expect-error - at least one of problems or validationResults is required
+expectRejectedItems({ ok: false, feedback: ['Check the passengers'] });
+const mistypedItem = {
+  valid: false as const,
+  problems: ['bad'] as [string],
+  normalizedValue: 'John',
+};
+// @ts-expect-error - item feedback must match the item type
+expectRejectedItems({ ok: false, validationResults: { 0: mistypedItem } });
+const dependentItem = { valid: false as const, requiresValidParameters: ['name'] as ['name'] };
+// @ts-expect-error - items have no sibling parameters to depend on
+expectRejectedItems({ ok: false, validationResults: { 0: dependentItem } });
+
+// ==================== ToolCallRejected with Union Input Types ====================
+
+type TravelInput =
+  | { kind: 'flight'; from: string; to: string }
+  | { kind: 'hotel'; city: string; nights: number };
+
+// Valid: Feedback for the fields of a single union member
+const validRejectedFlight: ToolCallFailure<TravelInput> = {
+  ok: false,
+  validationResults: {
+    kind: { valid: true },
+    to: { valid: false, requiresValidParameters: ['from'] },
+  },
+};
+const validRejectedHotel: ToolCallFailure<TravelInput> = {
+  ok: false,
+  validationResults: { nights: { valid: false, problems: ['Too long'], suggestedValues: [7] } },
+};
+
+function expectRejectedTravel(x: ToolCallFailure<TravelInput>) {}
+const mixedMembers = {
+  to: { valid: false as const, requiresValidParameters: ['city'] as ['city'] },
+};
+// @ts-expect-error - requiresValidParameters may only name fields of the same member
+expectRejectedTravel({ ok: false, validationResults: mixedMembers });
+
+// ==================== ToolCallPending Tests ====================
+
+// Valid: Pending with job id only
+const validPending: ToolCallPending = {
+  ok: 'pending',
+  jobId: 'job-1',
+};
+
+// Valid: Pending with poll hint, progress and instructions
+const validPendingFull: ToolCallPending = {
+  ok: 'pending',
+  jobId: 'job-1',
+  pollAfterMs: 5000,
+  progress: 0.5,
+  instructions: ['Check back on the report in a few seconds'],
+};
+
+// @ts-expect-error - jobId is required
+const invalidPendingNoJobId: ToolCallPending = {
+  ok: 'pending',
+};
+
+// Valid: AsyncToolCallResult accepts every outcome
+const validAsyncSuccess: AsyncToolCallResult<TestParams, { reportId: string }> = {
+  ok: true,
+  reportId: 'r-1',
+};
+
+const validAsyncFailure: AsyncToolCallResult<TestParams, { reportId: string }> = {
+  ok: false,
+  problems: ['Report generation is disabled'],
+};
+
+const validAsyncPending: AsyncToolCallResult<TestParams, { reportId: string }> = {
+  ok: 'pending',
+  jobId: 'job-1',
+};
+
+function expectAsyncResult(x: AsyncToolCallResult<TestParams, { reportId: string }>) {
+  if (x.ok === 'pending') {
+    const _jobId: string = x.jobId;
+  } else if (x.ok) {
+    const _reportId: string = x.reportId;
+  }
+}
+
+// ==================== Batch Tests ====================
+
+type Seat = { row: number; letter: string };
+type SeatBooking = { bookingId: string };
+type SeatsInput = { seats: Seat[] };
+
+// Valid: partial success with per-item outcomes
+const validPartial: ToolCallPartialSuccess<Seat, SeatBooking> = {
+  ok: 'partial',
+  items: [
+    { ok: true, bookingId: 'b-1' },
+    {
+      ok: false,
+      validationResults: {
+        letter: { valid: false, problems: ['Seat is taken'], suggestedValues: ['B', 'C'] },
+      },
+    },
+  ],
+  feedback: ['1 of 2 seats booked'],
+};
+
+const invalidPartialEmpty: ToolCallPartialSuccess<Seat, SeatBooking> = {
+  ok: 'partial',
+  // @ts-expect-error - items can not be empty
+  items: [],
+};
+
+const invalidPartialItem: ToolCallPartialSuccess<Seat, SeatBooking> = {
+  ok: 'partial',
+  items: [
+    {
+      ok: false,
+      // @ts-expect-error - item feedback refers to the item fields, not to the batch input
+      validationResults: { seats: { valid: false, problems: ['bad'] } },
+    },
+  ],
+};
+
+// Valid: all items accepted
+const validBatchSuccess: BatchToolCallResult<SeatsInput, Seat, SeatBooking> = {
+  ok: true,
+  items: [
+    { ok: true, bookingId: 'b-1' },
+    { ok: true, bookingId: 'b-2' },
+  ],
+};
+
+// Valid: whole batch rejected, with feedback on the batch input
+const validBatchFailure: BatchToolCallResult<SeatsInput, Seat, SeatBooking> = {
+  ok: false,
+  validationResults: { seats: { valid: false, problems: ['Too many seats'] } },
+};
+
+// Valid: partial outcome
+const validBatchPartial: BatchToolCallResult<SeatsInput, Seat, SeatBooking> = validPartial;
@@ -0,0 +1,250 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  isToolCallSuccess,
+  isToolCallFailure,
+  isParameterValidationResult,
+  assertToolCallResult,
+  type ToolCallResult,
+} from '../src/index.js';
+
+type Input = { name: string; age: number };
+type Output = { id: string };
+
+const expectValid = (value: unknown): void => {
+  assert.doesNotThrow(() => assertToolCallResult(value));
+};
+
+const expectInvalid = (value: unknown, message: RegExp): void => {
+  assert.throws(() => assertToolCallResult(value), { name: 'TypeError', message });
+};
+
+test('isToolCallSuccess / isToolCallFailure', async t => {
+  await t.test('narrow typed results', () => {
+    const results: ToolCallResult<Input, Output>[] = [
+      { ok: true, id: '1' },
+      { ok: false, problems: ['bad'] },
+    ];
+    const ids: string[] = [];
+    const problems: unknown[] = [];
+    for (const result of results) {
+      if (isToolCallSuccess(result)) ids.push(result.id);
+      if (isToolCallFailure(result)) problems.push(result.problems);
+    }
+    assert.deepEqual(ids, ['1']);
+    assert.deepEqual(problems, [['bad']]);
+  });
+
+  await t.test('accept unknown values', () => {
+    assert.equal(isToolCallSuccess(JSON.parse('{"ok":true}')), true);
+    assert.equal(isToolCallSuccess({ ok: 'pending', jobId: '1' }), false);
+    assert.equal(isToolCallFailure(JSON.parse('{"ok":false}')), true);
+    assert.equal(isToolCallFailure(null), false);
+    assert.equal(isToolCallFailure('ok'), false);
+  });
+});
+
+test('isParameterValidationResult', async t => {
+  await t.test('valid results', () => {
+    assert.equal(isParameterValidationResult({ valid: true }), true);
+    assert.equal(isParameterValidationResult({ valid: true, suggestedValues: ['a'] }), true);
+    assert.equal(isParameterValidationResult({ valid: false, problems: ['bad'] }), true);
+    assert.equal(
+      isParameterValidationResult<Input, 'age'>({
+        valid: false,
+        requiresValidParameters: ['name'],
+      }),
+      true,
+    );
+    assert.equal(
+      isParameterValidationResult({
+        valid: false,
+        validationResults: { street: { valid: false, problems: ['Unknown street'] } },
+      }),
+      true,
+    );
+  });
+
+  await t.test('invalid results', () => {
+    assert.equal(isParameterValidationResult({}), false);
+    assert.equal(isParameterValidationResult({ valid: false }), false);
+    assert.equal(isParameterValidationResult({ valid: false, problems: [] }), false);
+    assert.equal(isParameterValidationResult({ valid: true, problems: ['bad'] }), false);
+    assert.equal(
+      isParameterValidationResult({ valid: true, allowedValues: [], suggestedValues: ['a'] }),
+      false,
+    );
+    assert.equal(
+      isParameterValidationResult({ valid: false, validationResults: { street: {} } }),
+      false,
+    );
+  });
+});
+
+test('assertToolCallResult', async t => {
+  await t.test('accepts valid results', () => {
+    expectValid({ ok: true, id: '1' });
+    expectValid({ ok: true, id: '1', feedback: ['Created'] });
+    expectValid({
+      ok: true,
+      id: '1',
+      normalizedInput: { name: 'John' },
+      inputNotes: { name: ['Trimmed whitespace'] },
+    });
+    expectValid({ ok: false, problems: ['Service unavailable'] });
+    expectValid({ ok: false, problems: [{ code: 'rate_limited', message: 'Slow down' }] });
+    expectValid({ ok: false, problems: ['Unknown city'], suggestedValues: ['Paris'] });
+    expectValid({
+      ok: false,
+      problems: ['Unknown city'],
+      annotatedSuggestions: [{ value: 'CDG', label: 'Paris', score: 0.9 }, { value: 'ORY' }],
+    });
+    expectValid({
+      ok: false,
+      validationResults: {
+        name: { valid: false, problems: ['Unknown'], dynamicParameterSchema: { type: 'string' } },
+      },
+    });
+    expectValid({
+      ok: false,
+      problems: ['Too many passengers'],
+      suggestedValues: [['John']],
+      validationResults: { 1: { valid: false, problems: ['Duplicate passenger'] } },
+    });
+    expectValid({ ok: false, problems: ['Timeout'], retryable: true, retryAfterMs: 5000 });
+    expectValid({ ok: false, problems: ['Unknown city'], retryable: false });
+    expectValid({ ok: false, requiresConfirmation: { summary: 'Cancel booking', token: 't' } });
+    expectValid({
+      ok: false,
+      problems: ['Unknown city'],
+      instructions: [
+        'Check the spelling',
+        { kind: 'ask_user', question: 'Which Paris?', options: ['France', 'Texas'] },
+        { kind: 'call_tool', toolName: 'search_cities', suggestedInput: { query: 'Paris' } },
+        { kind: 'stop_and_report', message: 'The city is not served' },
+        { kind: 'retry' },
+      ],
+    });
+    expectValid({
+      ok: false,
+      problems: ['Unknown flight'],
+      relatedTools: [
+        { toolName: 'search_flights', relation: 'prerequisite', suggestedInput: { from: 'JFK' } },
+      ],
+    });
+    expectValid({
+      ok: false,
+      validationResults: {
+        name: { valid: true, normalizedValue: 'John' },
+        age: { valid: false, requiresValidParameters: ['name'] },
+      },
+    });
+  });
+
+  await t.test('narrows the value', () => {
+    const value: unknown = { ok: true, id: '1' };
+    assertToolCallResult<Input, Output>(value);
+    if (value.ok) {
+      assert.equal(value.id, '1');
+    }
+  });
+
+  await t.test('rejects invalid results', () => {
+    expectInvalid(null, /result must be an object/);
+    expectInvalid({ ok: 'yes' }, /result\.ok must be true or false/);
+    expectInvalid({ ok: true, feedback: [] }, /result\.feedback must not be empty/);
+    expectInvalid(
+      { ok: true, inputNotes: { name: [] } },
+      /result\.inputNotes\.name must not be empty/,
+    );
+    expectInvalid({ ok: false }, /must have problems or validationResults/);
+    expectInvalid({ ok: false, problems: [1] }, /result\.problems\[0\] must be a string/);
+    expectInvalid(
+      { ok: false, problems: [{ code: 'rate_limited' }] },
+      /result\.problems\[0\]\.message must be a string/,
+    );
+    expectInvalid({ ok: false, validationResults: {} }, /must have at least one entry/);
+    expectInvalid(
+      { ok: false, validationResults: { name: { valid: false } } },
+      /result\.validationResults\.name is invalid/,
+    );
+    expectInvalid(
+      { ok: false, validationResults: { age: { valid: false, requiresValidParameters: ['age'] } } },
+      /must not refer to the parameter itself/,
+    );
+    expectInvalid(
+      { ok: false, problems: ['Unknown city'], dynamicParameterSchema: 'string' },
+      /result\.dynamicParameterSchema must be a JSON Schema object/,
+    );
+    expectInvalid(
+      { ok: false, problems: ['Unknown city'], retryable: 'yes' },
+      /result\.retryable must be a boolean/,
+    );
+    expectInvalid(
+      { ok: false, problems: ['Timeout'], retryable: true, retryAfterMs: -1 },
+      /retryAfterMs must be a non-negative number/,
+    );
+    expectInvalid(
+      { ok: false, requiresConfirmation: { summary: 'Cancel booking' } },
+      /result\.requiresConfirmation\.token must be a string/,
+    );
+    expectInvalid(
+      { ok: false, requiresConfirmation: { summary: 'Cancel', token: 't' }, problems: ['Sure?'] },
+      /must not have problems or validationResults/,
+    );
+    expectInvalid(
+      { ok: false, problems: ['Unknown city'], annotatedSuggestions: [{ label: 'Paris' }] },
+      /result\.annotatedSuggestions\[0\] must be a \{ value \} object/,
+    );
+    expectInvalid(
+      {
+        ok: false,
+        problems: ['Unknown city'],
+        annotatedSuggestions: [{ value: 'CDG', score: '1' }],
+      },
+      /result\.annotatedSuggestions\[0\]\.score must be a number/,
+    );
+    expectInvalid(
+      {
+        ok: false,
+        problems: ['bad'],
+        suggestedValues: ['a'],
+        annotatedSuggestions: [{ value: 'b' }],
+      },
+      /must not have both suggestedValues and annotatedSuggestions/,
+    );
+    expectInvalid(
+      {
+        ok: false,
+        validationResults: { 0: { valid: false, problems: ['bad'] } },
+        suggestedValues: [],
+      },
+      /result\.suggestedValues must not be empty/,
+    );
+    expectInvalid(
+      { ok: false, problems: ['bad'], instructions: [{ kind: 'dance' }] },
+      /result\.instructions\[0\]\.kind must be one of/,
+    );
+    expectInvalid(
+      { ok: true, instructions: [{ kind: 'ask_user', question: 'Which?', options: [] }] },
+      /result\.instructions\[0\]\.options must not be empty/,
+    );
+    expectInvalid(
+      { ok: false, problems: ['bad'], instructions: [{ kind: 'stop_and_report' }] },
+      /result\.instructions\[0\]\.message must be a string/,
+    );
+    expectInvalid(
+      { ok: false, problems: ['bad'], relatedTools: [{ toolName: 'search_flights' }] },
+      /result\.relatedTools\[0\]\.relation must be prerequisite or followUp/,
+    );
+    expectInvalid(
+      { ok: true, relatedTools: [{ relation: 'followUp' }] },
+      /result\.relatedTools\[0\]\.toolName must be a string/,
+    );
+    expectInvalid(
+      { ok: false, problems: ['bad'], allowedValues: ['a'], suggestedValues: ['b'] },
+      /must not have both allowedValues and suggestedValues/,
+    );
+  });
+});